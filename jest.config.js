@@ -10,6 +10,8 @@ export default {
     '!src/**/*.d.ts',
   ],
   moduleNameMapper: {
+    // Sources import each other with the .js suffix that the ESM build needs
+    '^(\\.{1,2}/.*)\\.js$': '$1',
     '^node-fetch$': '<rootDir>/src/__mocks__/node-fetch.ts',
     '^playwright$': '<rootDir>/src/__mocks__/playwright.ts',
   },
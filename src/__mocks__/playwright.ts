@@ -1,12 +1,22 @@
+const createPage = () => ({
+  goto: jest.fn(),
+  waitForSelector: jest.fn(),
+  fill: jest.fn(),
+  press: jest.fn(),
+  click: jest.fn(),
+  waitForLoadState: jest.fn(),
+  content: jest.fn(() => Promise.resolve('<html><body></body></html>')),
+  close: jest.fn(() => Promise.resolve()),
+});
+
 export const chromium = {
   launch: jest.fn(() => Promise.resolve({
-    newPage: jest.fn(() => Promise.resolve({
-      goto: jest.fn(),
-      waitForSelector: jest.fn(),
-      fill: jest.fn(),
-      press: jest.fn(),
-      waitForLoadState: jest.fn(),
-      content: jest.fn(() => Promise.resolve('<html><body></body></html>')),
+    on: jest.fn(),
+    newPage: jest.fn(() => Promise.resolve(createPage())),
+    newContext: jest.fn(() => Promise.resolve({
+      route: jest.fn(),
+      newPage: jest.fn(() => Promise.resolve(createPage())),
+      close: jest.fn(),
     })),
     close: jest.fn(),
   })),
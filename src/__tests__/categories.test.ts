@@ -0,0 +1,27 @@
+import { classifyProduct, getMatchingCategories } from '../config/categories.js';
+
+test.each([
+  ['Sapphire PULSE AMD Radeon RX 7900 XT 20GB', 'GPU'],
+  ['ASUS TUF Gaming GeForce RTX 5070 Ti 16GB OC', 'GPU'],
+  ['AMD Ryzen 7 7800X3D processor', 'CPU'],
+  ['Kingston FURY Beast 32GB DDR5-6000 CL30 kit (2x16GB)', 'RAM'],
+  ['MSI MAG B650 TOMAHAWK WIFI moederbord', 'MOTHERBOARD'],
+  ['Samsung 990 Pro 2TB NVMe SSD', 'SSD'],
+  ['Corsair RM850x 850W voeding', 'PSU'],
+])('classifies "%s" as %s', (name, category) => {
+  expect(classifyProduct(name)).toBe(category);
+});
+
+// APUs mention their integrated graphics, which must not make them graphics cards
+test.each([
+  'AMD Ryzen 7 8700G processor met Radeon graphics',
+  'AMD Ryzen 5 8600G processor, Radeon 760M',
+  'AMD Ryzen 5 5600G met Radeon Vega graphics',
+])('classifies the APU "%s" as CPU only', (name) => {
+  expect(classifyProduct(name)).toBe('CPU');
+  expect(getMatchingCategories(name)).toEqual(['CPU']);
+});
+
+test('does not read GDDR memory on a graphics card as RAM', () => {
+  expect(getMatchingCategories('Gigabyte GeForce RTX 5080 16GB GDDR7')).toEqual(['GPU']);
+});
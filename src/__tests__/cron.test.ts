@@ -0,0 +1,81 @@
+import { getNextRun, isValidCron, parseCron } from '../cron.js';
+
+// Dates are built in local time, the same clock the scheduler evaluates against
+const at = (month: number, day: number, hour: number, minute: number): Date => new Date(2025, month - 1, day, hour, minute);
+
+describe('parseCron', () => {
+  test('expands lists, ranges and steps', () => {
+    const cron = parseCron('0,30 9-11 */10 1-12/6 1-5');
+
+    expect([...cron.minutes]).toEqual([0, 30]);
+    expect([...cron.hours]).toEqual([9, 10, 11]);
+    expect([...cron.daysOfMonth]).toEqual([1, 11, 21, 31]);
+    expect([...cron.months]).toEqual([1, 7]);
+    expect([...cron.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  test('runs a single start value with a step to the end of the field', () => {
+    expect([...parseCron('45/5 * * * *').minutes]).toEqual([45, 50, 55]);
+  });
+
+  test('treats 7 as Sunday', () => {
+    expect(parseCron('0 0 * * 7').daysOfWeek.has(0)).toBe(true);
+  });
+
+  test.each([
+    ['0 0 * *', 'expected 5 fields'],
+    ['60 * * * *', 'expected 0-59'],
+    ['* 24 * * *', 'expected 0-23'],
+    ['* * 0 * *', 'expected 1-31'],
+    ['* * * 13 *', 'expected 1-12'],
+    ['* * * * 8', 'expected 0-7'],
+    ['*/0 * * * *', 'expected 1-59'],
+    ['30-10 * * * *', 'Invalid cron range'],
+    ['a * * * *', 'Invalid cron value'],
+    ['-5 * * * *', 'Invalid cron value'],
+  ])('rejects "%s"', (expression, message) => {
+    expect(() => parseCron(expression)).toThrow(message);
+  });
+});
+
+describe('getNextRun', () => {
+  test('moves to the next minute even when the current one matches', () => {
+    expect(getNextRun('* * * * *', new Date(2025, 0, 1, 10, 0, 30))).toEqual(at(1, 1, 10, 1));
+  });
+
+  test('rolls over the hour, day and year', () => {
+    expect(getNextRun('15 * * * *', at(1, 1, 10, 15))).toEqual(at(1, 1, 11, 15));
+    expect(getNextRun('0 6 * * *', at(1, 1, 6, 0))).toEqual(at(1, 2, 6, 0));
+    expect(getNextRun('0 0 1 1 *', at(1, 1, 0, 0))).toEqual(new Date(2026, 0, 1, 0, 0));
+  });
+
+  test('skips months without the requested day', () => {
+    expect(getNextRun('0 12 31 * *', at(2, 1, 0, 0))).toEqual(at(3, 31, 12, 0));
+    expect(getNextRun('0 0 29 2 *', at(1, 1, 0, 0))).toEqual(new Date(2028, 1, 29, 0, 0));
+  });
+
+  test('matches either day field when both are restricted', () => {
+    // 1 January 2025 is a Wednesday, so the 15th or the next Monday comes first
+    expect(getNextRun('0 8 15 * 1', at(1, 1, 12, 0))).toEqual(at(1, 6, 8, 0));
+    expect(getNextRun('0 8 2 * 1', at(1, 1, 12, 0))).toEqual(at(1, 2, 8, 0));
+  });
+
+  test('needs both day fields when one of them is a wildcard', () => {
+    expect(getNextRun('0 8 * * 1', at(1, 1, 12, 0))).toEqual(at(1, 6, 8, 0));
+    expect(getNextRun('0 8 15 * *', at(1, 1, 12, 0))).toEqual(at(1, 15, 8, 0));
+  });
+});
+
+describe('isValidCron', () => {
+  test('accepts a schedule that runs', () => {
+    expect(isValidCron('*/15 6-23 * * 1-5')).toBe(true);
+  });
+
+  test('rejects a schedule that never runs', () => {
+    expect(isValidCron('0 0 31 2 *')).toBe(false);
+  });
+
+  test('rejects a malformed schedule', () => {
+    expect(isValidCron('every hour')).toBe(false);
+  });
+});
@@ -0,0 +1,54 @@
+import { normalizeProduct } from '../matching.js';
+
+const getKey = (name: string): string | undefined => normalizeProduct(name, 'GPU')?.key;
+
+describe('normalizeProduct', () => {
+  test('keeps the 7900 XT and 7900 XTX apart', () => {
+    expect(normalizeProduct('XFX Speedster MERC310 Radeon RX 7900 XT 20GB', 'GPU')).toMatchObject({
+      chipset: 'RX 7900 XT',
+      brand: 'XFX',
+      variant: 'Speedster MERC310',
+      memoryGb: 20,
+    });
+    expect(normalizeProduct('XFX Speedster MERC310 RX 7900XTX 24GB', 'GPU')?.chipset).toBe('RX 7900 XTX');
+    expect(getKey('XFX Speedster MERC310 RX 7900 XT')).not.toBe(getKey('XFX Speedster MERC310 RX 7900 XTX'));
+  });
+
+  test.each([
+    ['MSI GeForce RTX 4070 Ti SUPER 16G VENTUS 2X OC', 'RTX 4070 Ti Super'],
+    ['MSI GeForce RTX 4070 SUPER 12G VENTUS 2X OC', 'RTX 4070 Super'],
+    ['MSI GeForce RTX 4070 Ti 12G VENTUS 2X OC', 'RTX 4070 Ti'],
+    ['MSI GeForce RTX 4070 12G VENTUS 2X OC', 'RTX 4070'],
+  ])('reads the Ti and Super suffixes of "%s"', (name, chipset) => {
+    expect(normalizeProduct(name, 'GPU')?.chipset).toBe(chipset);
+  });
+
+  test('gives a hyphenated part number the same key as the written-out name', () => {
+    expect(normalizeProduct('ASUS TUF-RTX5070TI-O16G-GAMING', 'GPU')).toMatchObject({
+      chipset: 'RTX 5070 Ti',
+      brand: 'ASUS',
+      variant: 'TUF OC',
+      memoryGb: 16,
+    });
+    expect(getKey('ASUS TUF-RTX5070TI-O16G-GAMING')).toBe(getKey('ASUS TUF Gaming GeForce RTX 5070 Ti 16GB OC'));
+  });
+
+  test('leaves the OC edition and the regular card apart in part numbers', () => {
+    expect(getKey('ASUS TUF-RTX5070TI-16G-GAMING')).toBe(getKey('ASUS TUF Gaming GeForce RTX 5070 Ti 16GB'));
+    expect(getKey('ASUS TUF-RTX5070TI-16G-GAMING')).not.toBe(getKey('ASUS TUF-RTX5070TI-O16G-GAMING'));
+  });
+
+  test('ignores shop suffixes and word order', () => {
+    expect(getKey('Gigabyte GeForce RTX 5080 GAMING OC 16G - Videokaart')).toBe(
+      getKey('Gigabyte RTX 5080 OC Gaming 16GB')
+    );
+  });
+
+  test('maps processors to their model', () => {
+    expect(normalizeProduct('AMD Ryzen 7 7800X3D processor', 'CPU')?.chipset).toBe('Ryzen 7 7800X3D');
+  });
+
+  test('returns null without a known chipset', () => {
+    expect(normalizeProduct('Sapphire NITRO+ backplate', 'GPU')).toBeNull();
+  });
+});
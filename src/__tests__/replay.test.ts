@@ -0,0 +1,148 @@
+import path from 'path';
+import { DEFAULT_STORES, resolveStore, Store } from '../config/stores.js';
+import { scrapeStore } from '../scraping.js';
+
+// Replays the recorded search pages in fixtures/pages through the same code path as a live run,
+// so a selector or parser change that breaks a store shows up here first
+const getStore = (name: string): Store => {
+  const config = DEFAULT_STORES.find((store) => store.name === name);
+  const store = config ? resolveStore(config) : null;
+  if (!store) throw new Error(`Unknown store ${name}`);
+  return store;
+};
+
+beforeAll(() => {
+  process.env.SCRAPE_MODE = 'replay';
+  process.env.SCRAPE_FIXTURE_DIR = path.resolve('fixtures/pages');
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+});
+
+afterAll(() => {
+  delete process.env.SCRAPE_MODE;
+  delete process.env.SCRAPE_FIXTURE_DIR;
+  jest.restoreAllMocks();
+});
+
+test('Megekko: reads the grown load-more list as one page', async () => {
+  const result = await scrapeStore(getStore('Megekko'), 'AMD Radeon 7900XT');
+
+  expect(result.pages).toBe(1);
+  expect(result.products).toEqual([
+    {
+      name: 'Sapphire PULSE Radeon RX 7900 XT 20GB',
+      price: 689,
+      url: 'https://www.megekko.nl/product/1954/1071112/AMD-Radeon-Grafische-kaarten/Sapphire-PULSE-Radeon-RX-7900-XT-20GB',
+      store: 'Megekko',
+      category: 'GPU',
+      availability: 'in_stock',
+      deliveryEstimate: 'Morgen in huis',
+    },
+    {
+      name: 'XFX Speedster MERC310 Radeon RX 7900 XT 20GB',
+      price: 719,
+      url: 'https://www.megekko.nl/product/1954/1071345/AMD-Radeon-Grafische-kaarten/XFX-Speedster-MERC310-Radeon-RX-7900-XT-20GB',
+      store: 'Megekko',
+      category: 'GPU',
+      availability: 'out_of_stock',
+    },
+    {
+      name: 'PowerColor Hellhound Radeon RX 7900 XTX 24GB',
+      price: 899,
+      url: 'https://www.megekko.nl/product/1954/1072001/AMD-Radeon-Grafische-kaarten/PowerColor-Hellhound-Radeon-RX-7900-XTX-24GB',
+      store: 'Megekko',
+      category: 'GPU',
+      availability: 'backorder',
+    },
+  ]);
+});
+
+test('Coolblue: merges JSON-LD with the DOM listing and follows the page parameter', async () => {
+  const result = await scrapeStore(getStore('Coolblue'), 'NVMe SSD 2TB');
+
+  expect(result.pages).toBe(2);
+  expect(result.products).toEqual([
+    {
+      name: 'Samsung 990 Pro 2TB NVMe SSD',
+      price: 169,
+      url: 'https://www.coolblue.nl/product/927215/samsung-990-pro-2tb.html',
+      store: 'Coolblue',
+      category: 'SSD',
+      gtin: '8806094215038',
+      sku: '927215',
+      availability: 'in_stock',
+      deliveryEstimate: 'Morgen in huis',
+    },
+    {
+      name: 'WD Black SN850X 2TB NVMe SSD',
+      price: 149,
+      url: 'https://www.coolblue.nl/product/906044/wd-black-sn850x-2tb.html',
+      store: 'Coolblue',
+      category: 'SSD',
+      sku: '906044',
+      availability: 'out_of_stock',
+      deliveryEstimate: 'Tijdelijk uitverkocht',
+    },
+    {
+      name: 'Crucial T500 2TB NVMe SSD',
+      price: 139,
+      url: 'https://www.coolblue.nl/product/938571/crucial-t500-2tb.html',
+      store: 'Coolblue',
+      category: 'SSD',
+      availability: 'in_stock',
+      deliveryEstimate: 'Morgen in huis',
+    },
+  ]);
+});
+
+test('Alternate: marks listings from other sellers as marketplace offers', async () => {
+  const result = await scrapeStore(getStore('Alternate'), 'AMD Ryzen 7800X3D');
+
+  expect(result.pages).toBe(1);
+  expect(result.products).toEqual([
+    {
+      name: 'AMD Ryzen 7 7800X3D processor',
+      price: 339,
+      url: 'https://www.alternate.nl/AMD/Ryzen-7-7800X3D-processor/html/product/1891219',
+      store: 'Alternate',
+      category: 'CPU',
+      availability: 'in_stock',
+      deliveryEstimate: 'Direct leverbaar',
+    },
+    {
+      name: 'AMD Ryzen 7 7800X3D Tray processor',
+      price: 329.9,
+      url: 'https://www.alternate.nl/AMD/Ryzen-7-7800X3D-Tray-processor/html/product/1900012',
+      store: 'Alternate',
+      category: 'CPU',
+      availability: 'in_stock',
+      deliveryEstimate: 'Op voorraad',
+      seller: 'Verkoop door CPU-Direct',
+      isMarketplace: true,
+    },
+  ]);
+});
+
+test('Azerty: stops when there is no next link', async () => {
+  const result = await scrapeStore(getStore('Azerty'), 'DDR5 32GB 6000 CL30');
+
+  expect(result.pages).toBe(1);
+  expect(result.products).toEqual([
+    {
+      name: 'Kingston FURY Beast 32GB DDR5-6000 CL30 kit (2x16GB)',
+      price: 104.95,
+      url: 'https://azerty.nl/product/kingston/5227471/fury-beast-32gb-ddr5-6000-cl30',
+      store: 'Azerty',
+      category: 'RAM',
+      availability: 'in_stock',
+      deliveryEstimate: 'Voor 23:00 besteld, morgen in huis',
+    },
+    {
+      name: 'G.Skill Trident Z5 Neo RGB 32GB DDR5-6000 CL30 kit (2x16GB)',
+      price: 119,
+      url: 'https://azerty.nl/product/g-skill/5190033/trident-z5-neo-rgb-32gb-ddr5-6000-cl30',
+      store: 'Azerty',
+      category: 'RAM',
+      availability: 'backorder',
+    },
+  ]);
+});
@@ -0,0 +1,232 @@
+import {
+  classifyError,
+  createHostLimiter,
+  getHostLimiter,
+  HttpError,
+  isRetryable,
+  parseRetryAfter,
+  withRetry,
+} from '../throttling.js';
+
+const createDeferred = (): { readonly promise: Promise<void>; readonly resolve: () => void } => {
+  let resolve = (): void => undefined;
+  const promise = new Promise<void>((done) => {
+    resolve = done;
+  });
+  return { promise, resolve };
+};
+
+// Lets queued continuations run without moving the fake clock
+const flush = async (): Promise<void> => {
+  for (let i = 0; i < 10; i++) await Promise.resolve();
+};
+
+beforeEach(() => {
+  jest.useFakeTimers();
+  jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+});
+
+describe('parseRetryAfter', () => {
+  const now = Date.parse('2025-01-01T12:00:00Z');
+
+  test.each([
+    ['120', 120000],
+    [' 5 ', 5000],
+    ['Wed, 01 Jan 2025 12:00:30 GMT', 30000],
+    ['Wed, 01 Jan 2025 11:59:00 GMT', 0],
+    ['soon', null],
+    ['', null],
+    [null, null],
+    [undefined, null],
+  ])('reads %p as %p ms', (value, expected) => {
+    expect(parseRetryAfter(value, now)).toBe(expected);
+  });
+});
+
+describe('classifyError and isRetryable', () => {
+  const timeout = Object.assign(new Error('The operation was aborted due to timeout'), { name: 'TimeoutError' });
+
+  test.each([
+    [new HttpError(429, 'Too Many Requests'), 'rate_limited', true],
+    [new HttpError(503, 'Service Unavailable'), 'server_error', true],
+    [new HttpError(404, 'Not Found'), 'client_error', false],
+    [timeout, 'timeout', true],
+    [new Error('connect ECONNREFUSED 127.0.0.1:443'), 'network', false],
+    [new Error('net::ERR_NAME_NOT_RESOLVED'), 'network', false],
+    [new Error('Unexpected token'), 'other', false],
+    ['not an error', 'other', false],
+  ])('%p is %s', (error, type, retryable) => {
+    expect(classifyError(error)).toBe(type);
+    expect(isRetryable(error)).toBe(retryable);
+  });
+});
+
+describe('withRetry', () => {
+  test('retries a retryable error and returns the later result', async () => {
+    jest.spyOn(Math, 'random').mockReturnValue(0);
+    const task = jest.fn()
+      .mockRejectedValueOnce(new HttpError(503, 'Service Unavailable'))
+      .mockResolvedValueOnce('ok');
+
+    const result = withRetry('page 1', task, 3);
+    await jest.advanceTimersByTimeAsync(0);
+
+    await expect(result).resolves.toBe('ok');
+    expect(task).toHaveBeenCalledTimes(2);
+  });
+
+  test('does not retry a client error', async () => {
+    const task = jest.fn().mockRejectedValue(new HttpError(404, 'Not Found'));
+
+    await expect(withRetry('page 1', task, 3)).rejects.toThrow('Not Found');
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  test('gives up after the last retry', async () => {
+    jest.spyOn(Math, 'random').mockReturnValue(0);
+    const task = jest.fn().mockRejectedValue(new HttpError(500, 'Internal Server Error'));
+
+    const result = withRetry('page 1', task, 2);
+    const rejection = expect(result).rejects.toThrow('Internal Server Error');
+    await jest.runAllTimersAsync();
+
+    await rejection;
+    expect(task).toHaveBeenCalledTimes(3);
+  });
+
+  test('backs off exponentially up to the jitter ceiling', async () => {
+    jest.spyOn(Math, 'random').mockReturnValue(0.999);
+    const task = jest.fn().mockRejectedValue(new HttpError(500, 'Internal Server Error'));
+
+    const rejection = expect(withRetry('page 1', task, 2)).rejects.toThrow();
+    await jest.advanceTimersByTimeAsync(998);
+    expect(task).toHaveBeenCalledTimes(1);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(task).toHaveBeenCalledTimes(2);
+    await jest.advanceTimersByTimeAsync(1997);
+    expect(task).toHaveBeenCalledTimes(2);
+    await jest.advanceTimersByTimeAsync(1);
+
+    await rejection;
+    expect(task).toHaveBeenCalledTimes(3);
+  });
+
+  test('waits at least as long as Retry-After asks, capped at a minute', async () => {
+    jest.spyOn(Math, 'random').mockReturnValue(0);
+    const task = jest.fn()
+      .mockRejectedValueOnce(new HttpError(429, 'Too Many Requests', 5000))
+      .mockRejectedValueOnce(new HttpError(429, 'Too Many Requests', 3600000))
+      .mockResolvedValueOnce('ok');
+
+    const result = withRetry('page 1', task, 3);
+    await jest.advanceTimersByTimeAsync(4999);
+    expect(task).toHaveBeenCalledTimes(1);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(task).toHaveBeenCalledTimes(2);
+    await jest.advanceTimersByTimeAsync(60000);
+
+    await expect(result).resolves.toBe('ok');
+    expect(task).toHaveBeenCalledTimes(3);
+  });
+});
+
+describe('createHostLimiter', () => {
+  test('runs no more tasks at once than the concurrency allows', async () => {
+    const limiter = createHostLimiter({ requestsPerMinute: 60, concurrency: 2 });
+    const tasks = [createDeferred(), createDeferred(), createDeferred()];
+    const started: number[] = [];
+
+    const runs = tasks.map((task, index) =>
+      limiter.run(async () => {
+        started.push(index);
+        await task.promise;
+      })
+    );
+    await flush();
+    expect(started).toEqual([0, 1]);
+
+    tasks[0]?.resolve();
+    await flush();
+    expect(started).toEqual([0, 1, 2]);
+
+    tasks.forEach((task) => task.resolve());
+    await Promise.all(runs);
+  });
+
+  test('starts queued tasks when the concurrency is raised', async () => {
+    const limiter = createHostLimiter({ requestsPerMinute: 60, concurrency: 1 });
+    const task = createDeferred();
+    const started: number[] = [];
+
+    const runs = [0, 1, 2].map((index) =>
+      limiter.run(async () => {
+        started.push(index);
+        await task.promise;
+      })
+    );
+    await flush();
+    expect(started).toEqual([0]);
+
+    limiter.setRateLimit({ requestsPerMinute: 60, concurrency: 3 });
+    await flush();
+    expect(started).toEqual([0, 1, 2]);
+
+    task.resolve();
+    await Promise.all(runs);
+  });
+
+  test('drains down to a lowered concurrency before starting queued tasks', async () => {
+    const limiter = createHostLimiter({ requestsPerMinute: 60, concurrency: 2 });
+    const tasks = [createDeferred(), createDeferred(), createDeferred()];
+    const started: number[] = [];
+
+    const runs = tasks.map((task, index) =>
+      limiter.run(async () => {
+        started.push(index);
+        await task.promise;
+      })
+    );
+    await flush();
+    limiter.setRateLimit({ requestsPerMinute: 60, concurrency: 1 });
+
+    tasks[0]?.resolve();
+    await flush();
+    expect(started).toEqual([0, 1]);
+
+    tasks[1]?.resolve();
+    await flush();
+    expect(started).toEqual([0, 1, 2]);
+
+    tasks[2]?.resolve();
+    await Promise.all(runs);
+  });
+
+  test('spaces requests by the requests per minute', async () => {
+    const limiter = createHostLimiter({ requestsPerMinute: 30, concurrency: 3 });
+    const turns: number[] = [];
+
+    const start = Date.now();
+    const waits = [0, 1, 2].map(() => limiter.waitForTurn().then(() => turns.push(Date.now() - start)));
+    await jest.advanceTimersByTimeAsync(4000);
+    await Promise.all(waits);
+
+    expect(turns).toEqual([0, 2000, 4000]);
+  });
+});
+
+describe('getHostLimiter', () => {
+  test('shares one limiter per host and applies a changed rate limit', () => {
+    const limiter = getHostLimiter('https://shop.example/search?q=a', { requestsPerMinute: 60, concurrency: 2 });
+    const same = getHostLimiter('https://shop.example/product/1', { requestsPerMinute: 20, concurrency: 1 });
+    const other = getHostLimiter('https://other.example/', { requestsPerMinute: 60, concurrency: 2 });
+
+    expect(same).toBe(limiter);
+    expect(other).not.toBe(limiter);
+    expect(limiter.getRateLimit()).toEqual({ requestsPerMinute: 20, concurrency: 1 });
+  });
+});
@@ -0,0 +1,117 @@
+import { Category, Item } from '../types.js';
+import { isRejectionReason, validateSearchResults } from '../validation.js';
+
+const item = (name: string, price: number, category: Category, store = 'Megekko'): Item => ({
+  name,
+  price,
+  url: `https://shop.example/${encodeURIComponent(name)}`,
+  store,
+  category,
+});
+
+const validate = (searchTerm: string, products: readonly Item[]) => {
+  const [result] = validateSearchResults([{ searchTerm, products }]);
+  if (!result) throw new Error('No result for the search');
+  return result;
+};
+
+describe('validateSearchResults', () => {
+  test('accepts a listing that matches the search', () => {
+    const product = item('Sapphire PULSE Radeon RX 7900 XT 20GB', 689, 'GPU');
+
+    expect(validate('AMD Radeon 7900XT', [product])).toEqual({ accepted: [product], rejected: [] });
+  });
+
+  test('accepts a listing from another category at the confidence threshold', () => {
+    const product = item('Samsung 990 Pro 2TB NVMe SSD', 169, 'SSD');
+
+    expect(validate('AMD Ryzen 7800X3D', [product]).accepted).toEqual([product]);
+  });
+
+  test('rejects a listing when the category mismatch comes with a second doubt', () => {
+    const { accepted, rejected } = validate('NVMe SSD 2TB', [item('AMD Radeon grafische kaart', 299, 'GPU')]);
+
+    expect(accepted).toEqual([]);
+    expect(rejected).toEqual([
+      expect.objectContaining({
+        searchTerm: 'NVMe SSD 2TB',
+        reason: 'low_confidence',
+        confidence: 0.2,
+        detail: 'Category GPU is uncertain: found while searching for SSD; no known chipset in the name',
+      }),
+    ]);
+  });
+
+  test('does not count integrated graphics against a processor', () => {
+    const product = item('AMD Ryzen 7 8700G processor with Radeon graphics', 289, 'CPU');
+
+    expect(validate('AMD Ryzen 8700G', [product]).accepted).toEqual([product]);
+  });
+
+  test.each([
+    ['Gigabyte GeForce RTX 4070 SUPER WINDFORCE OC 12G (refurbished)', 'refurbished'],
+    ['MSI Katana 15 gaming laptop RTX 4070', 'system'],
+    ['AMD Ryzen 7 7800X3D + ASUS TUF B650-PLUS upgrade kit', 'bundle'],
+    ['AMD Ryzen 7 7800X3D + ASUS TUF Gaming B650-PLUS moederbord', 'bundle'],
+    ['Cooler Master GPU anti-sag bracket for RTX 4090', 'accessory'],
+    ['Sleeved extension cable for RTX 4070', 'accessory'],
+  ])('rejects "%s" as %s', (name, reason) => {
+    const { accepted, rejected } = validate('RTX 4070', [item(name, 499, 'GPU')]);
+
+    expect(accepted).toEqual([]);
+    expect(rejected[0]?.reason).toBe(reason);
+  });
+
+  test('rejects a price that could not be parsed', () => {
+    const { rejected } = validate('RTX 4070', [item('MSI GeForce RTX 4070 VENTUS 2X 12G', NaN, 'GPU')]);
+
+    expect(rejected[0]?.reason).toBe('invalid_price');
+  });
+
+  test('rejects a price below the category minimum', () => {
+    const { rejected } = validate('RTX 4070', [item('MSI GeForce RTX 4070 VENTUS 2X 12G', 59, 'GPU')]);
+
+    expect(rejected[0]).toMatchObject({
+      reason: 'price_outlier',
+      detail: '€59 is below the €150 minimum for GPU',
+    });
+  });
+
+  test('rejects prices far from the median of the same model across searches', () => {
+    const cheap = item('Gigabyte GeForce RTX 4070 WINDFORCE OC 12G', 199, 'GPU', 'Azerty');
+    const steep = item('ASUS ROG Strix GeForce RTX 4070 12GB', 1499, 'GPU', 'Alternate');
+    const results = validateSearchResults([
+      {
+        searchTerm: 'RTX 4070',
+        products: [
+          item('MSI GeForce RTX 4070 VENTUS 2X 12G', 579, 'GPU'),
+          item('Palit GeForce RTX 4070 Dual 12GB', 589, 'GPU', 'Coolblue'),
+          cheap,
+        ],
+      },
+      { searchTerm: 'GeForce RTX 4070', products: [steep] },
+    ]);
+
+    expect(results.map(({ rejected }) => rejected.map(({ name, reason }) => ({ name, reason })))).toEqual([
+      [{ name: cheap.name, reason: 'price_outlier' }],
+      [{ name: steep.name, reason: 'price_outlier' }],
+    ]);
+  });
+
+  test('keeps a model with too few offers out of the outlier check', () => {
+    const products = [
+      item('MSI GeForce RTX 4070 VENTUS 2X 12G', 579, 'GPU'),
+      item('Gigabyte GeForce RTX 4070 WINDFORCE OC 12G', 199, 'GPU', 'Azerty'),
+    ];
+
+    expect(validate('RTX 4070', products).accepted).toEqual(products);
+  });
+});
+
+describe('isRejectionReason', () => {
+  test('accepts known reasons only', () => {
+    expect(isRejectionReason('price_outlier')).toBe(true);
+    expect(isRejectionReason('expensive')).toBe(false);
+    expect(isRejectionReason(undefined)).toBe(false);
+  });
+});
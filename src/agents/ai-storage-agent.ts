@@ -1,160 +1,382 @@
-import OpenAI from 'openai';
-import { Item, ScrapingResult, AIAnalysisResult } from '../types.js';
-import fs from 'fs/promises';
-import path from 'path';
-import { SEARCH_TERMS } from '../config/stores.js';
-
-type OpenAIClient = OpenAI;
-type LogFilePath = string;
-
-const createOpenAIClient = (apiKey?: string): OpenAIClient => 
-  new OpenAI({ apiKey: apiKey ?? process.env.OPENAI_API_KEY });
-
-const getLogFilePath = (): LogFilePath => 
-  path.join(process.cwd(), 'openai_responses.log');
-
-const formatLogEntry = (timestamp: string, method: string, response: any, error?: any): string => {
-  const separator = '='.repeat(80);
-  
-  let logContent = '';
-  logContent += `${separator}\n`;
-  logContent += `TIMESTAMP: ${timestamp}\n`;
-  logContent += `METHOD: ${method}\n`;
-  logContent += `${separator}\n`;
-  
-  if (error) {
-    logContent += `❌ ERROR:\n`;
-    logContent += `Error Message: ${error.message ?? 'Unknown error'}\n`;
-    logContent += `Error Stack: ${error.stack ?? 'No stack trace'}\n`;
-  } else {
-    logContent += `✅ SUCCESS:\n`;
-    const responseContent = response?.choices?.[0]?.message?.content ?? 'No content';
-    logContent += `Response Content:\n${responseContent}\n`;
-  }
-  
-  logContent += `${separator}\n\n`;
-  
-  return logContent;
-};
-
-const logResponse = async (logFilePath: LogFilePath, method: string, response: any, error?: any): Promise<void> => {
-  const timestamp = new Date().toISOString();
-  const logContent = formatLogEntry(timestamp, method, response, error);
-  await fs.appendFile(logFilePath, logContent);
-};
-
-
-
-const createDeduplicationPrompt = (products: readonly Item[]): string => `
+import {
+  Item,
+  ScrapingResult,
+  AIAnalysisResult,
+  Category,
+  ChipsetPricePoint,
+  PriceCitation,
+  Recommendation,
+  RecommendationAction
+} from '../types.js';
+import { DEFAULT_SEARCH_TERMS } from '../config/stores.js';
+import { CATEGORIES, isCategory } from '../config/categories.js';
+import { normalizeProduct } from '../matching.js';
+import { median } from '../pricing.js';
+import { createLLMProvider, LLMProvider, parseJsonContent } from './llm-provider.js';
+
+// Small batches keep each prompt well inside the context window of local models
+const BATCH_SIZE = parseInt(process.env.LLM_BATCH_SIZE ?? "") || 40;
+
+// The cheapest models first, so the prompt stays small when a run finds many chipsets
+const MAX_INSIGHT_MODELS = 30;
+// Within this share of the previous low, the fallback says buy
+const BUY_MARGIN = 1.02;
+
+interface ModelContext {
+  readonly model: string;
+  readonly category: Category;
+  // Cheapest offer per store in the current scrape, cheapest first
+  readonly offers: readonly PriceCitation[];
+  // Daily lows from the stored price history, before this scrape
+  readonly previousLow: number | null;
+  readonly previousLowDay: string | null;
+  readonly medianDailyLow: number | null;
+  readonly historyDays: number;
+}
+
+const createDeduplicationPrompt = (products: readonly Item[], searchTerms: readonly string[]): string => `
 Analyze these products and remove duplicates. Consider:
 - Same product name and store
-- Focus on the names listed at ${JSON.stringify(SEARCH_TERMS, null, 2)}
+- Focus on the names listed at ${JSON.stringify(searchTerms, null, 2)}
 - Similar products with slight name variations
 - Keep the one with the most complete information
+- Copy every kept product exactly as given; never change names, stores or prices and never add products
 
 Products:
 ${JSON.stringify(products, null, 2)}
 
-Return a JSON array of unique products only.
+Return a JSON object of the form {"products": [...]} with the unique products only.
 `;
 
-const callOpenAI = async (
-  client: OpenAIClient, 
-  prompt: string, 
-  maxTokens: number, 
-  temperature: number
-): Promise<any> => {
-  const response = await client.chat.completions.create({
-    model: "gpt-4.1-nano",
-    messages: [{ role: "user", content: prompt }],
-    max_tokens: maxTokens,
-    temperature: temperature,
+const isOptionalString = (value: unknown): boolean => value === undefined || typeof value === 'string';
+
+const isItemShape = (value: any): value is Item =>
+  !!value &&
+  typeof value === 'object' &&
+  typeof value.name === 'string' &&
+  !!value.name &&
+  typeof value.price === 'number' &&
+  Number.isFinite(value.price) &&
+  typeof value.url === 'string' &&
+  typeof value.store === 'string' &&
+  isCategory(value.category) &&
+  isOptionalString(value.gtin) &&
+  isOptionalString(value.sku);
+
+const isSameProduct = (a: Item, b: Item): boolean =>
+  a.name === b.name && a.store === b.store;
+
+// Only products from the batch may come back, at their scraped price; the originals are returned
+// so the model cannot alter fields it was not asked to judge
+const parseDeduplicationResponse = (content: string, batch: readonly Item[]): readonly Item[] => {
+  const parsed: any = parseJsonContent(content);
+  const candidates: unknown = Array.isArray(parsed) ? parsed : parsed?.products;
+
+  if (!Array.isArray(candidates)) {
+    throw new Error('Response is not a list of products');
+  }
+
+  const products = candidates.map((candidate, index) => {
+    if (!isItemShape(candidate)) {
+      throw new Error(`Product ${index} does not match the Item shape`);
+    }
+
+    const original = batch.find((product) => isSameProduct(product, candidate));
+    if (!original) {
+      throw new Error(`"${candidate.name}" (${candidate.store}) is not one of the scraped products`);
+    }
+    if (original.price !== candidate.price) {
+      throw new Error(`"${candidate.name}" came back at €${candidate.price} instead of €${original.price}`);
+    }
+    return original;
   });
-  return response;
-};
 
-const parseAIResponse = (response: any): any => 
-  JSON.parse(response?.choices?.[0]?.message?.content ?? '{}');
+  if (products.length === 0 && batch.length > 0) {
+    throw new Error('Response dropped every product');
+  }
 
+  return products.filter((product, index) => products.indexOf(product) === index);
+};
 
+const removeExactDuplicates = (products: readonly Item[]): readonly Item[] =>
+  products.filter(
+    (product, index, self) => index === self.findIndex((p) => isSameProduct(p, product))
+  );
+
+// Sorted first, so listings of the same model usually end up in the same batch
+const toBatches = (products: readonly Item[]): readonly (readonly Item[])[] => {
+  const sorted = [...products].sort(
+    (a, b) => a.category.localeCompare(b.category) || a.name.localeCompare(b.name)
+  );
+  return Array.from({ length: Math.ceil(sorted.length / BATCH_SIZE) }, (_, index) =>
+    sorted.slice(index * BATCH_SIZE, (index + 1) * BATCH_SIZE)
+  );
+};
 
 const generateFallbackReport = (result: ScrapingResult): string => {
   const { products, errors } = result;
-  const gpus = products.filter((p) => p.category === "GPU");
-  const cpus = products.filter((p) => p.category === "CPU");
+  const groups = CATEGORIES.map((category) => ({
+    category,
+    prices: products.filter((p) => p.category === category.id).map((p) => p.price),
+  }));
 
   return `
 📊 SCRAPING RESULTS SUMMARY
 
 🎯 Total Products Found: ${products.length}
-🎮 GPUs: ${gpus.length}
-🖥️ CPUs: ${cpus.length}
+${groups.map(({ category, prices }) => `${category.icon} ${category.label}: ${prices.length}`).join('\n')}
 
 🏪 Stores Scraped: ${[...new Set(products.map(p => p.store))].join(', ')}
 
 💰 Price Range:
-   - GPU: €${gpus.length > 0 ? Math.min(...gpus.map(p => p.price)) : 'N/A'} - €${gpus.length > 0 ? Math.max(...gpus.map(p => p.price)) : 'N/A'}
-   - CPU: €${cpus.length > 0 ? Math.min(...cpus.map(p => p.price)) : 'N/A'} - €${cpus.length > 0 ? Math.max(...cpus.map(p => p.price)) : 'N/A'}
+${groups.map(({ category, prices }) => `   - ${category.id}: €${prices.length > 0 ? Math.min(...prices) : 'N/A'} - €${prices.length > 0 ? Math.max(...prices) : 'N/A'}`).join('\n')}
 
 ❌ Errors: ${errors.length}
 ${errors.map(e => `   - ${e}`).join('\n')}
     `;
 };
 
-const formatResults = (result: ScrapingResult): void => {
-  const report = generateFallbackReport(result);
+const formatRecommendation = (recommendation: Recommendation): string =>
+  `${recommendation.action === 'buy' ? '🛒 BUY ' : '⏳ WAIT'} ${recommendation.model}: ${recommendation.reason}\n` +
+  `   ${recommendation.citations.map((citation) => `€${citation.price} at ${citation.store}`).join(', ')}`;
+
+const formatResults = (result: ScrapingResult, analysis?: AIAnalysisResult): void => {
+  const report = analysis?.insights ?? generateFallbackReport(result);
   
   console.log("\n" + "=".repeat(50));
-  console.log("📊 SCRAPING RESULTS SUMMARY");
+  console.log(analysis?.source === 'llm' ? `🤖 AI INSIGHTS (${analysis.model})` : "📊 SCRAPING RESULTS SUMMARY");
   console.log("=".repeat(50));
   console.log(report);
+  if (analysis?.recommendations && analysis.recommendations.length > 0) {
+    console.log();
+    analysis.recommendations.forEach((recommendation) => console.log(formatRecommendation(recommendation)));
+  }
   console.log("=".repeat(50));
 };
 
+// A failed or rejected batch keeps its products, minus exact duplicates
+const deduplicateBatch = async (
+  provider: LLMProvider,
+  batch: readonly Item[],
+  searchTerms: readonly string[]
+): Promise<readonly Item[]> => {
+  try {
+    const response = await provider.complete({
+      method: 'deduplicateProducts',
+      prompt: createDeduplicationPrompt(batch, searchTerms),
+      // Roughly what the batch itself takes, since the answer repeats the kept products
+      maxTokens: Math.max(1000, Math.ceil(JSON.stringify(batch).length / 2)),
+      temperature: 0.1,
+      validate: (content) => parseDeduplicationResponse(content, batch),
+    });
+
+    return parseDeduplicationResponse(response.content, batch);
+  } catch (error) {
+    console.warn(`AI deduplication of ${batch.length} products failed, using fallback method:`, error instanceof Error ? error.message : error);
+    return removeExactDuplicates(batch);
+  }
+};
 
 const deduplicateProducts = async (
-  client: OpenAIClient,
-  logFilePath: LogFilePath,
-  products: readonly Item[]
+  provider: LLMProvider,
+  products: readonly Item[],
+  searchTerms: readonly string[]
 ): Promise<readonly Item[]> => {
   if (products.length === 0) return products;
 
-  const prompt = createDeduplicationPrompt(products);
+  const batches = toBatches(products);
+  console.log(`🤖 Deduplicating ${products.length} products in ${batches.length} batches with ${provider.model}...`);
 
-  try {
-    const response = await callOpenAI(client, prompt, 5000, 0.1);
-    await logResponse(logFilePath, 'deduplicateProducts', response);
+  const deduplicated: Item[] = [];
+  for (const batch of batches) {
+    deduplicated.push(...(await deduplicateBatch(provider, batch, searchTerms)));
+  }
 
-    console.log('🤖 Deduplication Response:', response.choices[0]?.message?.content);
+  // Batches are judged separately, so exact duplicates across their boundaries are removed here
+  return removeExactDuplicates(deduplicated);
+};
 
-    return parseAIResponse(response);
-  } catch (error) {
-    await logResponse(logFilePath, 'deduplicateProducts', null, error);
-    console.error('❌ AI deduplication failed:', error);
-    console.warn('AI deduplication failed, using fallback method');
-    return products.filter(
-      (product, index, self) =>
-        index === self.findIndex((p) => p.name === product.name && p.store === product.store)
-    );
+const createModelContexts = (
+  products: readonly Item[],
+  history: readonly ChipsetPricePoint[]
+): readonly ModelContext[] => {
+  const groups = new Map<string, { readonly category: Category; readonly offers: PriceCitation[] }>();
+
+  products
+    .filter((product) => product.price > 0 && product.availability !== 'out_of_stock')
+    .forEach((product) => {
+      const chipset = normalizeProduct(product.name, product.category)?.chipset;
+      if (!chipset) return;
+
+      const group = groups.get(chipset) ?? { category: product.category, offers: [] };
+      const existing = group.offers.findIndex((offer) => offer.store === product.store);
+      if (existing === -1) {
+        group.offers.push({ store: product.store, price: product.price });
+      } else if (product.price < (group.offers[existing]?.price ?? Infinity)) {
+        group.offers[existing] = { store: product.store, price: product.price };
+      }
+      groups.set(chipset, group);
+    });
+
+  return [...groups.entries()]
+    .map(([model, { category, offers }]) => {
+      const points = history.filter((point) => point.chipset === model && point.category === category);
+      const low = points.reduce<ChipsetPricePoint | null>(
+        (lowest, point) => (!lowest || point.minPrice < lowest.minPrice ? point : lowest),
+        null
+      );
+
+      return {
+        model,
+        category,
+        offers: [...offers].sort((a, b) => a.price - b.price),
+        previousLow: low?.minPrice ?? null,
+        previousLowDay: low?.day ?? null,
+        medianDailyLow: median(points.map((point) => point.minPrice)),
+        historyDays: points.length,
+      };
+    })
+    .sort((a, b) => (a.offers[0]?.price ?? 0) - (b.offers[0]?.price ?? 0))
+    .slice(0, MAX_INSIGHT_MODELS);
+};
+
+const createInsightsPrompt = (contexts: readonly ModelContext[]): string => `
+You advise someone building a PC in the Netherlands. For every model below, decide whether to buy now or wait,
+based on today's offers and the daily lows from earlier scrapes (prices in euro).
+
+Models:
+${JSON.stringify(contexts, null, 2)}
+
+Rules:
+- Give exactly one recommendation per model, using the model names as given
+- Cite the offers your advice is based on as {"store", "price"}, copied exactly from that model's offers
+- Do not mention stores or prices that are not in the data
+
+Return a JSON object of the form:
+{"insights": "a few sentences about the market", "recommendations": [{"model": "...", "action": "buy" or "wait", "reason": "...", "citations": [{"store": "...", "price": 0}]}]}
+`;
+
+const isAction = (value: unknown): value is RecommendationAction => value === 'buy' || value === 'wait';
+
+// Rejects the whole answer when a model, store or price does not appear in the data it was given
+const parseInsightsResponse = (
+  content: string,
+  contexts: readonly ModelContext[]
+): { readonly insights: string; readonly recommendations: readonly Recommendation[] } => {
+  const parsed: any = parseJsonContent(content);
+
+  if (typeof parsed?.insights !== 'string' || !Array.isArray(parsed?.recommendations)) {
+    throw new Error('Response does not contain insights and recommendations');
   }
+
+  const recommendations = parsed.recommendations.map((candidate: any, index: number): Recommendation => {
+    const context = contexts.find((context) => context.model === candidate?.model);
+    if (!context) {
+      throw new Error(`Recommendation ${index} is for unknown model "${candidate?.model}"`);
+    }
+    if (!isAction(candidate.action) || typeof candidate.reason !== 'string' || !Array.isArray(candidate.citations)) {
+      throw new Error(`Recommendation for ${context.model} does not match the expected shape`);
+    }
+
+    const citations = candidate.citations.map((citation: any): PriceCitation => {
+      const offer = context.offers.find((offer) => offer.store === citation?.store && offer.price === citation?.price);
+      if (!offer) {
+        throw new Error(`${context.model} cites €${citation?.price} at ${citation?.store}, which is not one of its offers`);
+      }
+      return offer;
+    });
+    if (citations.length === 0) {
+      throw new Error(`Recommendation for ${context.model} cites no offers`);
+    }
+
+    return { model: context.model, category: context.category, action: candidate.action, reason: candidate.reason, citations };
+  });
+
+  return { insights: parsed.insights, recommendations };
 };
 
+// Buy when today's cheapest offer is at or near the lowest daily price seen before
+const createFallbackRecommendations = (contexts: readonly ModelContext[]): readonly Recommendation[] =>
+  contexts.flatMap((context) => {
+    const cheapest = context.offers[0];
+    if (!cheapest || context.previousLow === null) return [];
+
+    const isNearLow = cheapest.price <= context.previousLow * BUY_MARGIN;
+    return [{
+      model: context.model,
+      category: context.category,
+      action: isNearLow ? 'buy' : 'wait',
+      reason: isNearLow
+        ? `€${cheapest.price} at ${cheapest.store} is at or near the lowest price seen (€${context.previousLow} on ${context.previousLowDay})`
+        : `€${cheapest.price} at ${cheapest.store} is above the lowest price seen (€${context.previousLow} on ${context.previousLowDay})`,
+      citations: [cheapest],
+    }];
+  });
 
+const createFallbackAnalysis = (result: ScrapingResult, contexts: readonly ModelContext[]): AIAnalysisResult => ({
+  products: result.products,
+  errors: result.errors,
+  insights: generateFallbackReport(result),
+  recommendations: createFallbackRecommendations(contexts),
+  source: 'fallback',
+  model: null,
+});
+
+const analyzeResults = async (
+  provider: LLMProvider,
+  result: ScrapingResult,
+  history: readonly ChipsetPricePoint[]
+): Promise<AIAnalysisResult> => {
+  const contexts = createModelContexts(result.products, history);
+  if (contexts.length === 0) {
+    return createFallbackAnalysis(result, contexts);
+  }
+
+  try {
+    const response = await provider.complete({
+      method: 'analyzeResults',
+      prompt: createInsightsPrompt(contexts),
+      maxTokens: 3000,
+      temperature: 0.2,
+      validate: (content) => parseInsightsResponse(content, contexts),
+    });
+
+    return {
+      products: result.products,
+      errors: result.errors,
+      ...parseInsightsResponse(response.content, contexts),
+      source: 'llm',
+      model: provider.model,
+    };
+  } catch (error) {
+    console.warn('AI analysis failed, using the fallback report:', error instanceof Error ? error.message : error);
+    return createFallbackAnalysis(result, contexts);
+  }
+};
 
 export class AIStorageAgent {
-  private readonly openai: OpenAIClient;
-  private readonly logFilePath: LogFilePath;
+  private readonly provider: LLMProvider;
+
+  constructor(provider: LLMProvider = createLLMProvider()) {
+    this.provider = provider;
+  }
 
-  constructor(apiKey?: string) {
-    this.openai = createOpenAIClient(apiKey);
-    this.logFilePath = getLogFilePath();
+  async formatResults(result: ScrapingResult, analysis?: AIAnalysisResult): Promise<void> {
+    return formatResults(result, analysis);
   }
 
-  async formatResults(result: ScrapingResult): Promise<void> {
-    return formatResults(result);
+  // Falls back to the deterministic report when the model is unreachable or its answer is rejected
+  async analyzeResults(
+    result: ScrapingResult,
+    history: readonly ChipsetPricePoint[] = []
+  ): Promise<AIAnalysisResult> {
+    return analyzeResults(this.provider, result, history);
   }
 
-  async deduplicateProducts(products: readonly Item[]): Promise<readonly Item[]> {
-    return deduplicateProducts(this.openai, this.logFilePath, products);
+  async deduplicateProducts(
+    products: readonly Item[],
+    searchTerms: readonly string[] = DEFAULT_SEARCH_TERMS
+  ): Promise<readonly Item[]> {
+    return deduplicateProducts(this.provider, products, searchTerms);
   }
 } 
\ No newline at end of file
@@ -0,0 +1,64 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { hashText } from './llm-usage.js';
+
+interface CacheEntry {
+  readonly model: string;
+  readonly createdAt: string;
+  readonly content: string;
+  readonly promptTokens: number | null;
+  readonly completionTokens: number | null;
+}
+
+interface CacheKeyInput {
+  readonly model: string;
+  readonly prompt: string;
+  readonly maxTokens: number;
+  readonly temperature: number;
+}
+
+const DEFAULT_TTL_HOURS = 7 * 24;
+
+const isCacheEnabled = (): boolean => process.env.LLM_CACHE !== "off";
+
+const getCacheDir = (): string => process.env.LLM_CACHE_DIR ?? "./data/llm-cache";
+
+const getCacheTtlMs = (): number =>
+  (parseFloat(process.env.LLM_CACHE_TTL_HOURS ?? "") || DEFAULT_TTL_HOURS) * 60 * 60 * 1000;
+
+// Everything that changes the answer is part of the key, so another model or setting never reuses it
+const getCacheKey = ({ model, prompt, maxTokens, temperature }: CacheKeyInput): string =>
+  hashText(JSON.stringify({ model, prompt, maxTokens, temperature }));
+
+// Spread over subdirectories by the first two hex digits to keep directories small
+const getCachePath = (key: string): string => path.join(getCacheDir(), key.slice(0, 2), `${key}.json`);
+
+const readCachedResponse = async (key: string): Promise<CacheEntry | null> => {
+  if (!isCacheEnabled()) return null;
+
+  try {
+    const entry = JSON.parse(await fs.readFile(getCachePath(key), "utf-8")) as CacheEntry;
+    return Date.now() - new Date(entry.createdAt).getTime() < getCacheTtlMs() ? entry : null;
+  } catch {
+    return null;
+  }
+};
+
+// A failed write only costs a repeated call later, so it is reported and ignored
+const writeCachedResponse = async (key: string, entry: CacheEntry): Promise<void> => {
+  if (!isCacheEnabled()) return;
+
+  const cachePath = getCachePath(key);
+  try {
+    await fs.mkdir(path.dirname(cachePath), { recursive: true });
+    await fs.writeFile(cachePath, JSON.stringify(entry));
+  } catch (error) {
+    console.warn(`Could not cache the LLM response in ${cachePath}:`, error instanceof Error ? error.message : error);
+  }
+};
+
+export {
+  getCacheKey,
+  readCachedResponse,
+  writeCachedResponse
+};
@@ -0,0 +1,159 @@
+import OpenAI from 'openai';
+import { recordOpenAICall } from '../metrics.js';
+import { LLMCallRecord } from '../types.js';
+import { getCacheKey, readCachedResponse, writeCachedResponse } from './llm-cache.js';
+import { estimateCost, hashText, recordLLMCall } from './llm-usage.js';
+
+export interface LLMConfig {
+  // Any OpenAI-compatible endpoint, e.g. http://localhost:11434/v1 for a local model server
+  readonly baseUrl?: string;
+  readonly apiKey?: string;
+  readonly model: string;
+  readonly timeoutMs: number;
+}
+
+export interface CompletionRequest {
+  // Names the calling agent method in metrics and logs
+  readonly method: string;
+  readonly prompt: string;
+  readonly maxTokens: number;
+  readonly temperature: number;
+  // Throws for a response the caller would reject, which keeps it out of the response cache
+  readonly validate?: (content: string) => void;
+}
+
+export interface CompletionResult {
+  readonly content: string;
+  readonly promptTokens: number | null;
+  readonly completionTokens: number | null;
+}
+
+export interface LLMProvider {
+  readonly model: string;
+  readonly complete: (request: CompletionRequest) => Promise<CompletionResult>;
+}
+
+const DEFAULT_MODEL = "gpt-4.1-nano";
+
+const getLLMConfig = (): LLMConfig => ({
+  baseUrl: process.env.LLM_BASE_URL || undefined,
+  apiKey: process.env.LLM_API_KEY ?? process.env.OPENAI_API_KEY,
+  model: process.env.LLM_MODEL || DEFAULT_MODEL,
+  timeoutMs: parseInt(process.env.LLM_TIMEOUT_MS ?? "") || 120000,
+});
+
+// Local servers usually ignore the key, but the client refuses to start without one.
+// The client is built on the first call, so a missing key fails that call and the agents
+// fall back to their deterministic results instead of failing the run.
+const createOpenAICompatibleProvider = (config: LLMConfig): LLMProvider => {
+  let client: OpenAI | null = null;
+  const getClient = (): OpenAI =>
+    (client ??= new OpenAI({
+      baseURL: config.baseUrl,
+      apiKey: config.apiKey ?? (config.baseUrl ? "not-needed" : undefined),
+      timeout: config.timeoutMs,
+    }));
+
+  return {
+    model: config.model,
+    complete: async ({ method, prompt, maxTokens, temperature }) => {
+      const startedAt = Date.now();
+      try {
+        const response = await getClient().chat.completions.create({
+          model: config.model,
+          messages: [{ role: "user", content: prompt }],
+          max_tokens: maxTokens,
+          temperature,
+        });
+        recordOpenAICall(method, Date.now() - startedAt, "success", response.usage);
+
+        return {
+          content: response.choices[0]?.message?.content ?? "",
+          promptTokens: response.usage?.prompt_tokens ?? null,
+          completionTokens: response.usage?.completion_tokens ?? null,
+        };
+      } catch (error) {
+        recordOpenAICall(method, Date.now() - startedAt, "error");
+        throw error;
+      }
+    },
+  };
+};
+
+const isAcceptable = (request: CompletionRequest, content: string): boolean => {
+  try {
+    request.validate?.(content);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Answers repeated prompts from the cache and logs every call, cached or not
+const withUsageTracking = (provider: LLMProvider): LLMProvider => ({
+  model: provider.model,
+  complete: async (request) => {
+    const startedAt = Date.now();
+    const key = getCacheKey({ ...request, model: provider.model });
+    const logCall = (record: Pick<LLMCallRecord, "promptTokens" | "completionTokens" | "costUsd" | "outcome" | "error">) =>
+      recordLLMCall({
+        timestamp: new Date().toISOString(),
+        method: request.method,
+        model: provider.model,
+        promptHash: hashText(request.prompt),
+        durationMs: Date.now() - startedAt,
+        ...record,
+      });
+
+    const cached = await readCachedResponse(key);
+    if (cached && isAcceptable(request, cached.content)) {
+      await logCall({ promptTokens: cached.promptTokens, completionTokens: cached.completionTokens, costUsd: 0, outcome: "cached" });
+      return { content: cached.content, promptTokens: cached.promptTokens, completionTokens: cached.completionTokens };
+    }
+
+    try {
+      const result = await provider.complete(request);
+      await logCall({
+        promptTokens: result.promptTokens,
+        completionTokens: result.completionTokens,
+        costUsd: estimateCost(provider.model, result.promptTokens, result.completionTokens),
+        outcome: "success",
+      });
+
+      if (isAcceptable(request, result.content)) {
+        await writeCachedResponse(key, { model: provider.model, createdAt: new Date().toISOString(), ...result });
+      }
+      return result;
+    } catch (error) {
+      await logCall({
+        promptTokens: null,
+        completionTokens: null,
+        costUsd: null,
+        outcome: "error",
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  },
+});
+
+const createLLMProvider = (config: LLMConfig = getLLMConfig()): LLMProvider =>
+  withUsageTracking(createOpenAICompatibleProvider(config));
+
+// Models often wrap JSON in a markdown fence or add a sentence around it
+const parseJsonContent = (content: string): unknown => {
+  const fenced = content.match(/```(?:json)?\s*([\s\S]*?)```/i)?.[1] ?? content;
+  const start = fenced.search(/[[{]/);
+  if (start === -1) {
+    throw new Error("Response contains no JSON");
+  }
+
+  const end = Math.max(fenced.lastIndexOf("]"), fenced.lastIndexOf("}"));
+  return JSON.parse(fenced.slice(start, end + 1));
+};
+
+export {
+  getLLMConfig,
+  createLLMProvider,
+  parseJsonContent
+};
@@ -0,0 +1,122 @@
+import { createHash } from 'crypto';
+import { createReadStream } from 'fs';
+import fs from 'fs/promises';
+import path from 'path';
+import { createInterface } from 'readline';
+import { LLMCallRecord, LLMUsageSummary, LLMUsageTotals } from '../types.js';
+
+// USD per million tokens; models missing here (local ones) get no cost estimate
+const MODEL_PRICES: Readonly<Record<string, { readonly input: number; readonly output: number }>> = {
+  "gpt-4.1-nano": { input: 0.1, output: 0.4 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "gpt-4.1": { input: 2, output: 8 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4o": { input: 2.5, output: 10 },
+};
+
+const getCallLogPath = (): string => process.env.LLM_CALL_LOG ?? "./logs/llm_calls.jsonl";
+
+const hashText = (text: string): string => createHash("sha256").update(text).digest("hex");
+
+// Single calls cost fractions of a cent, so costs keep eight decimals
+const roundCost = (cost: number): number => Math.round(cost * 100_000_000) / 100_000_000;
+
+// LLM_PRICE_INPUT and LLM_PRICE_OUTPUT (USD per million tokens) cover models without a known price
+const getModelPrice = (model: string): { readonly input: number; readonly output: number } | null => {
+  const input = parseFloat(process.env.LLM_PRICE_INPUT ?? "");
+  const output = parseFloat(process.env.LLM_PRICE_OUTPUT ?? "");
+  if (Number.isFinite(input) && Number.isFinite(output)) {
+    return { input, output };
+  }
+  return MODEL_PRICES[model] ?? null;
+};
+
+const estimateCost = (model: string, promptTokens: number | null, completionTokens: number | null): number | null => {
+  const price = getModelPrice(model);
+  if (!price || promptTokens === null || completionTokens === null) return null;
+
+  return roundCost((promptTokens * price.input + completionTokens * price.output) / 1_000_000);
+};
+
+// A broken log must never fail the scrape, so write errors are only reported
+const recordLLMCall = async (record: LLMCallRecord): Promise<void> => {
+  const logPath = getCallLogPath();
+  try {
+    await fs.mkdir(path.dirname(logPath), { recursive: true });
+    await fs.appendFile(logPath, `${JSON.stringify(record)}\n`);
+  } catch (error) {
+    console.warn(`Could not write the LLM call log to ${logPath}:`, error instanceof Error ? error.message : error);
+  }
+};
+
+async function* readCallLog(): AsyncGenerator<LLMCallRecord> {
+  const logPath = getCallLogPath();
+  try {
+    await fs.access(logPath);
+  } catch {
+    return;
+  }
+
+  const lines = createInterface({ input: createReadStream(logPath), crlfDelay: Infinity });
+  for await (const line of lines) {
+    try {
+      if (line.trim()) yield JSON.parse(line) as LLMCallRecord;
+    } catch {
+      // Skips a line cut off by a crash mid-write
+    }
+  }
+}
+
+const createTotals = (): LLMUsageTotals => ({
+  calls: 0,
+  cachedCalls: 0,
+  failedCalls: 0,
+  promptTokens: 0,
+  completionTokens: 0,
+  costUsd: 0,
+  durationMs: 0,
+});
+
+// Cached calls count as calls but add no tokens or cost, since nothing was billed
+const addRecord = (totals: LLMUsageTotals, record: LLMCallRecord): LLMUsageTotals => {
+  const billed = record.outcome !== "cached";
+  return {
+    calls: totals.calls + 1,
+    cachedCalls: totals.cachedCalls + (record.outcome === "cached" ? 1 : 0),
+    failedCalls: totals.failedCalls + (record.outcome === "error" ? 1 : 0),
+    promptTokens: totals.promptTokens + (billed ? record.promptTokens ?? 0 : 0),
+    completionTokens: totals.completionTokens + (billed ? record.completionTokens ?? 0 : 0),
+    costUsd: roundCost(totals.costUsd + (billed ? record.costUsd ?? 0 : 0)),
+    durationMs: totals.durationMs + record.durationMs,
+  };
+};
+
+const getLLMUsage = async (days: number): Promise<LLMUsageSummary> => {
+  const from = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+  const byDay = new Map<string, LLMUsageTotals>();
+  const byMethod = new Map<string, LLMUsageTotals>();
+  let total = createTotals();
+
+  for await (const record of readCallLog()) {
+    if (record.timestamp < from) continue;
+
+    const day = record.timestamp.slice(0, 10);
+    byDay.set(day, addRecord(byDay.get(day) ?? createTotals(), record));
+    byMethod.set(record.method, addRecord(byMethod.get(record.method) ?? createTotals(), record));
+    total = addRecord(total, record);
+  }
+
+  return {
+    from,
+    byDay: [...byDay.entries()].sort(([a], [b]) => a.localeCompare(b)).map(([day, totals]) => ({ day, ...totals })),
+    byMethod: [...byMethod.entries()].sort(([a], [b]) => a.localeCompare(b)).map(([method, totals]) => ({ method, ...totals })),
+    total,
+  };
+};
+
+export {
+  hashText,
+  estimateCost,
+  recordLLMCall,
+  getLLMUsage
+};
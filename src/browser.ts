@@ -0,0 +1,133 @@
+import { Browser, BrowserContext, chromium, Page } from "playwright";
+import { Store } from './config/stores.js';
+
+const BLOCKED_RESOURCE_TYPES: ReadonlySet<string> = new Set(["image", "font", "media"]);
+
+// Tried when the adapter has no consent selector of its own
+const COMMON_CONSENT_SELECTORS: readonly string[] = [
+  "#onetrust-accept-btn-handler",
+  "#CybotCookiebotDialogBodyLevelButtonLevelOptinAllowAll",
+  "button:has-text('Alles accepteren')",
+  "button:has-text('Accepteren')",
+  "button:has-text('Akkoord')",
+] as const;
+
+const CONSENT_TIMEOUT_MS = 2000;
+
+let browser: Promise<Browser> | null = null;
+let users = 0;
+// One context per store, so cookies (and the consent given in them) carry over between terms
+const contexts = new Map<string, Promise<BrowserContext>>();
+const consentHandled = new Set<string>();
+
+const resetPool = (): void => {
+  browser = null;
+  contexts.clear();
+  consentHandled.clear();
+};
+
+const getBrowser = (): Promise<Browser> => {
+  if (!browser) {
+    console.log("🧭 Launching shared browser...");
+    // A crashed browser takes its contexts with it; the next page starts a fresh one
+    const launching: Promise<Browser> = chromium.launch({ headless: true }).then((instance) => {
+      instance.on("disconnected", () => {
+        if (browser === launching) resetPool();
+      });
+      return instance;
+    });
+    launching.catch(() => {
+      if (browser === launching) resetPool();
+    });
+    browser = launching;
+  }
+  return browser;
+};
+
+const createContext = async (): Promise<BrowserContext> => {
+  const context = await (await getBrowser()).newContext();
+
+  await context.route("**/*", (route) =>
+    BLOCKED_RESOURCE_TYPES.has(route.request().resourceType()) ? route.abort() : route.continue()
+  );
+  return context;
+};
+
+const getContext = (store: Store): Promise<BrowserContext> => {
+  const existing = contexts.get(store.name);
+  if (existing) return existing;
+
+  const context = createContext();
+  contexts.set(store.name, context);
+  context.catch(() => {
+    if (contexts.get(store.name) === context) contexts.delete(store.name);
+  });
+  return context;
+};
+
+// Clicks the cookie banner once per context; later pages reuse the stored consent cookie
+const acceptCookies = async (store: Store, page: Page): Promise<void> => {
+  if (consentHandled.has(store.name)) return;
+  consentHandled.add(store.name);
+
+  const selectors = store.adapter.consentSelector ? [store.adapter.consentSelector] : COMMON_CONSENT_SELECTORS;
+
+  for (const selector of selectors) {
+    try {
+      await page.click(selector, { timeout: CONSENT_TIMEOUT_MS });
+      console.log(`🍪 Accepted cookies for ${store.name}`);
+      return;
+    } catch {
+      // No banner with this selector
+    }
+  }
+};
+
+const closeBrowserPool = async (): Promise<void> => {
+  const closing = browser;
+  resetPool();
+  users = 0;
+
+  if (closing) {
+    try {
+      await (await closing).close();
+      console.log("🧭 Shared browser closed");
+    } catch (error) {
+      console.error("❌ Failed to close shared browser:", error);
+    }
+  }
+};
+
+// Every scrape that uses the pool holds a reference; the browser closes with the last one
+const retainBrowserPool = (): void => {
+  users++;
+};
+
+const releaseBrowserPool = async (): Promise<void> => {
+  users = Math.max(0, users - 1);
+  if (users === 0) {
+    await closeBrowserPool();
+  }
+};
+
+const withBrowserPage = async <T>(store: Store, task: (page: Page) => Promise<T>): Promise<T> => {
+  retainBrowserPool();
+  try {
+    const page = await (await getContext(store)).newPage();
+    try {
+      return await task(page);
+    } finally {
+      await page.close().catch(() => {});
+    }
+  } finally {
+    await releaseBrowserPool();
+  }
+};
+
+export {
+  acceptCookies,
+  withBrowserPage,
+  retainBrowserPool,
+  releaseBrowserPool,
+  closeBrowserPool
+};
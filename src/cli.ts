@@ -0,0 +1,250 @@
+import fs from 'fs';
+import { finished } from 'stream/promises';
+import { parseArgs } from 'util';
+import { main, printProduct, writeResultsFile } from './index.js';
+import { parseRunOptions } from './jobs.js';
+import {
+  getLatestOffers,
+  getLatestProducts,
+  getPriceHistory,
+  getProductsByCategory,
+  getProductStats,
+  getSchemaVersion
+} from './database.js';
+import { createModelMatcher } from './comparison.js';
+import { getExportFilename, parseExportQuery, writeExport } from './export.js';
+import { CATEGORIES, getCategory, isCategory } from './config/categories.js';
+import { Category, Item, StoredItem } from './types.js';
+
+const USAGE = `Usage: pnpm cli <command> [options]
+
+Commands:
+  scrape                     Scrape the active stores and search terms
+    --store <name>           Only this store (repeatable)
+    --term <text>            Only this search term (repeatable)
+    --max-pages <n>          Result pages to follow per search
+    --dry-run                Print the results without saving anything
+    --no-ai                  Skip AI deduplication
+  products list              List the latest products
+    --category <id>          ${CATEGORIES.map((category) => category.id).join(', ')}
+    --store <name>           Only products from this store
+    --limit <n>              Maximum number of products (default 50)
+  stats                      Product counts per category and store
+  export                     Export products or price history to a file
+    --format <format>        json (latest products, default), csv, ndjson or xlsx (price history)
+    --category <id>          Only this category
+    --store <name>           Only this store
+    --from <date>            csv/ndjson/xlsx: scrapes on or after this date
+    --to <date>              csv/ndjson/xlsx: scrapes up to and including this date
+    --output <file>          Target file
+  history <model>            Price history of a model, e.g. "RX 7900 XTX"
+  migrate                    Apply pending database migrations
+
+Options:
+  --json                     Print machine-readable JSON instead of text
+  --help                     Show this help`;
+
+const { values: flags, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    store: { type: 'string', multiple: true },
+    term: { type: 'string', multiple: true },
+    category: { type: 'string' },
+    limit: { type: 'string' },
+    output: { type: 'string' },
+    format: { type: 'string', default: 'json' },
+    from: { type: 'string' },
+    to: { type: 'string' },
+    'max-pages': { type: 'string' },
+    'dry-run': { type: 'boolean', default: false },
+    'no-ai': { type: 'boolean', default: false },
+    json: { type: 'boolean', default: false },
+    help: { type: 'boolean', default: false },
+  },
+});
+
+// Progress logs go to stderr in --json mode so stdout stays parseable
+if (flags.json) {
+  console.log = (...args: unknown[]) => console.error(...args);
+}
+
+const print = (data: unknown, printText: () => void): void => {
+  if (flags.json) {
+    process.stdout.write(`${JSON.stringify(data, null, 2)}\n`);
+  } else {
+    printText();
+  }
+};
+
+const parsePositiveInt = (value: string | undefined, name: string): number | undefined => {
+  if (value === undefined) return undefined;
+
+  const parsed = parseInt(value, 10);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new Error(`--${name} must be a positive integer`);
+  }
+  return parsed;
+};
+
+const matchesStore = (product: Item, storeNames: readonly string[] | undefined): boolean =>
+  !storeNames || storeNames.some((name) => name.toLowerCase() === product.store.toLowerCase());
+
+const runScrape = async (): Promise<void> => {
+  // Same validation as POST /run, so unknown or disabled stores are reported instead of skipped
+  const options = parseRunOptions({
+    stores: flags.store,
+    searchTerms: flags.term,
+    maxPages: parsePositiveInt(flags['max-pages'], 'max-pages'),
+  });
+  if (typeof options === 'string') {
+    throw new Error(options);
+  }
+
+  const summary = await main({
+    ...options,
+    dryRun: flags['dry-run'],
+    skipAI: flags['no-ai'],
+  });
+
+  print(summary, () => {
+    console.log(`\n📦 ${summary.productCount} products from ${summary.pageCount} result pages`);
+    if (summary.scrapeId !== null) {
+      console.log(`💾 Saved as scrape ${summary.scrapeId}, run report ${summary.runId} (${summary.status})`);
+    }
+  });
+};
+
+const getCategoryFlag = (): Category | undefined => {
+  const category = flags.category?.toUpperCase();
+  if (category !== undefined && !isCategory(category)) {
+    throw new Error(`Invalid category. Must be one of ${CATEGORIES.map((c) => c.id).join(', ')}`);
+  }
+  return category;
+};
+
+// The store filter runs after the query, so the query itself is not limited
+const selectProducts = (category: Category | undefined, limit: number): readonly StoredItem[] =>
+  (category ? getProductsByCategory(category, Number.MAX_SAFE_INTEGER) : getLatestProducts(Number.MAX_SAFE_INTEGER))
+    .filter((product) => matchesStore(product, flags.store))
+    .slice(0, limit);
+
+const listProducts = (): void => {
+  const category = getCategoryFlag();
+  const products = selectProducts(category, parsePositiveInt(flags.limit, 'limit') ?? 50);
+
+  print(products, () => {
+    const label = category ? getCategory(category)?.label : 'products';
+    console.log(`📦 ${products.length} ${label}\n`);
+    products.forEach(printProduct);
+  });
+};
+
+const showStats = (): void => {
+  const stats = getProductStats();
+
+  print(stats, () => {
+    console.log(`📊 Total products: ${stats.total}`);
+    CATEGORIES.forEach((category) => console.log(`${category.icon} ${category.label}: ${stats.categories[category.id]}`));
+    console.log(`🏪 Stores: ${stats.stores.join(', ')}`);
+  });
+};
+
+// csv, ndjson and xlsx go through the same streaming writer as GET /export
+const exportPriceHistory = async (): Promise<void> => {
+  // The price history query filters on a single store
+  if (flags.store && flags.store.length > 1) {
+    throw new Error('export takes one --store at a time');
+  }
+
+  const query = parseExportQuery({
+    format: flags.format,
+    category: flags.category,
+    store: flags.store?.[0],
+    from: flags.from,
+    to: flags.to,
+  });
+  if (typeof query === 'string') {
+    throw new Error(query);
+  }
+
+  const filename = flags.output ?? getExportFilename(query.format);
+  const output = fs.createWriteStream(filename);
+
+  await writeExport(query.format, query.filters, output);
+  output.end();
+  await finished(output);
+
+  print({ filename, format: query.format }, () => console.log(`📤 Exported price history to ${filename}`));
+};
+
+const exportProducts = async (): Promise<void> => {
+  if (flags.format !== 'json') {
+    return exportPriceHistory();
+  }
+
+  const products = selectProducts(getCategoryFlag(), Number.MAX_SAFE_INTEGER);
+  const filename = await writeResultsFile({ products, errors: [] }, flags.output);
+
+  print({ filename, productCount: products.length }, () =>
+    console.log(`📤 Exported ${products.length} products`)
+  );
+};
+
+const showHistory = (model: string | undefined): void => {
+  if (!model) {
+    throw new Error('history needs a model, e.g. history "RX 7900 XTX"');
+  }
+
+  const history = getLatestOffers()
+    .filter(createModelMatcher(model))
+    .filter((offer) => matchesStore(offer, flags.store))
+    .map((offer) => ({ ...offer, history: getPriceHistory(offer.itemId) }));
+
+  print(history, () => {
+    if (history.length === 0) {
+      console.log(`No offers found for "${model}"`);
+      return;
+    }
+
+    history.forEach((offer) => {
+      console.log(`${offer.name} (${offer.store})`);
+      offer.history.forEach((point) => console.log(`  ${point.timestamp}  €${point.price}`));
+      console.log();
+    });
+  });
+};
+
+const run = async (): Promise<void> => {
+  const [command, ...args] = positionals;
+
+  if (flags.help || !command) {
+    console.log(USAGE);
+    return;
+  }
+
+  switch (command) {
+    case 'scrape':
+      return runScrape();
+    case 'products':
+      if (args[0] !== 'list') throw new Error(`Unknown products command "${args[0] ?? ''}"`);
+      return listProducts();
+    case 'stats':
+      return showStats();
+    case 'export':
+      return exportProducts();
+    case 'history':
+      return showHistory(args.join(' ') || undefined);
+    case 'migrate':
+      // Importing the database module already applied any pending migrations
+      return print({ schemaVersion: getSchemaVersion() }, () =>
+        console.log(`✅ Database schema is at version ${getSchemaVersion()}`)
+      );
+    default:
+      throw new Error(`Unknown command "${command}"\n\n${USAGE}`);
+  }
+};
+
+run().catch((error) => {
+  console.error(`❌ ${error instanceof Error ? error.message : error}`);
+  process.exitCode = 1;
+});
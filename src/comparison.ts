@@ -0,0 +1,112 @@
+import { Item, ModelComparison } from './types.js';
+import { findChipset, normalizeProduct } from './matching.js';
+
+const isAvailable = (product: Item): boolean => product.availability !== "out_of_stock";
+
+const getChipset = (product: Item): string | null =>
+  normalizeProduct(product.name, product.category)?.chipset ?? null;
+
+// Splits "7900XTX" into "7900" and "xtx", so a model number reads the same with or without a space
+const getModelTokens = (text: string): ReadonlySet<string> =>
+  new Set(
+    text
+      .toLowerCase()
+      .replace(/(\d)(?=[a-z])/g, "$1 ")
+      .split(/[^a-z0-9]+/)
+      .filter((token) => !!token)
+  );
+
+// Every token of the model must be a whole token of the name, so "7900 XT" never matches "7900 XTX"
+const matchesModelTokens = (model: string, name: string): boolean => {
+  const nameTokens = getModelTokens(name);
+  return [...getModelTokens(model)].every((token) => nameTokens.has(token));
+};
+
+// A recognisable chipset ("RX 7900 XT") is matched exactly; anything else ("9800X3D",
+// a bare "7900 XT") falls back to whole-token matching, which also keeps XTX listings out
+const createModelMatcher = (model: string): ((product: Item) => boolean) => {
+  const chipset = findChipset(model, "GPU") ?? findChipset(model, "CPU");
+
+  return chipset
+    ? (product) => getChipset(product) === chipset.chipset
+    : (product) => matchesModelTokens(model, product.name);
+};
+
+const getCheapestPerStore = <T extends Item>(offers: readonly T[]): readonly T[] =>
+  offers.filter(
+    (offer, index, self) => index === self.findIndex((other) => other.store === offer.store)
+  );
+
+const compareOffers = <T extends Item>(model: string, offers: readonly T[]): ModelComparison<T> => {
+  const sortedOffers = offers
+    .filter((offer) => offer.price > 0)
+    .slice()
+    .sort((a, b) => a.price - b.price);
+  const cheapestPerStore = getCheapestPerStore(sortedOffers);
+
+  const cheapest = cheapestPerStore[0] ?? null;
+  const mostExpensive = cheapestPerStore[cheapestPerStore.length - 1] ?? null;
+  const spread = cheapest && mostExpensive && cheapestPerStore.length > 1
+    ? Math.round((mostExpensive.price - cheapest.price) * 100) / 100
+    : null;
+
+  return {
+    model,
+    offers: sortedOffers,
+    cheapestPerStore,
+    cheapest,
+    spread,
+    spreadPercent: spread !== null && cheapest
+      ? Math.round((spread / cheapest.price) * 1000) / 10
+      : null,
+  };
+};
+
+const compareModel = <T extends Item>(model: string, offers: readonly T[]): ModelComparison<T> =>
+  compareOffers(model, offers.filter(createModelMatcher(model)));
+
+// Groups a run's products by chipset for the CLI report
+const compareByChipset = <T extends Item>(products: readonly T[]): readonly ModelComparison<T>[] => {
+  const groups = new Map<string, T[]>();
+
+  products.forEach((product) => {
+    const chipset = getChipset(product);
+    if (chipset) {
+      groups.set(chipset, [...(groups.get(chipset) ?? []), product]);
+    }
+  });
+
+  return [...groups.entries()]
+    .map(([chipset, offers]) => compareOffers(chipset, offers))
+    .sort((a, b) => a.model.localeCompare(b.model));
+};
+
+const formatComparison = (comparison: ModelComparison): string => {
+  const { model, cheapest, cheapestPerStore, spread, spreadPercent } = comparison;
+
+  if (!cheapest) {
+    return `${model}: no offers found`;
+  }
+
+  const lines = [
+    `${model}`,
+    `  🏆 Cheapest: €${cheapest.price} at ${cheapest.store}${cheapest.deliveryEstimate ? ` (${cheapest.deliveryEstimate})` : ""}`,
+    `  🔗 ${cheapest.url}`,
+    ...cheapestPerStore.slice(1).map((offer) => `  🏪 ${offer.store}: €${offer.price} (+€${Math.round((offer.price - cheapest.price) * 100) / 100})`),
+  ];
+
+  if (spread !== null) {
+    lines.push(`  📏 Spread: €${spread} (${spreadPercent}%) across ${cheapestPerStore.length} stores`);
+  }
+
+  return lines.join("\n");
+};
+
+export {
+  isAvailable,
+  createModelMatcher,
+  compareOffers,
+  compareModel,
+  compareByChipset,
+  formatComparison
+};
@@ -0,0 +1,101 @@
+import { Availability, StoreAdapter } from '../types.js';
+
+export const SEARCH_TERM_PLACEHOLDER = "{searchTerm}";
+
+// Dutch shops write prices as "1.099,00", "€ 1.099,-" or "1099,"
+export const parseEuroPrice = (text: string): number => {
+  const priceText = text
+    .replace(/[^\d,.]/g, "")
+    .replace(/\./g, "")
+    .replace(",", ".")
+    .trim();
+  const price = priceText ? parseFloat(priceText) : NaN;
+  return Number.isFinite(price) ? price : -1;
+};
+
+// Out-of-stock phrases are checked first because they also contain "op voorraad"
+export const parseDutchAvailability = (text: string): Availability => {
+  const normalized = text.toLowerCase();
+
+  if (/niet (op voorraad|leverbaar|beschikbaar)|uitverkocht|tijdelijk uitverkocht|sold out/.test(normalized)) {
+    return "out_of_stock";
+  }
+  if (/nabestel|besteld|pre-?order|verwacht|leverdatum onbekend|backorder/.test(normalized)) {
+    return "backorder";
+  }
+  if (/op voorraad|direct leverbaar|morgen (in huis|bezorgd)|vandaag verzonden|in stock/.test(normalized)) {
+    return "in_stock";
+  }
+  return "unknown";
+};
+
+export const MEGEKKO_ADAPTER: StoreAdapter = {
+  selectors: {
+    product: [".prdContainer"],
+    name: [".prdTitle"],
+    price: [".prsEuro"],
+    url: ["a[href]"],
+    availability: [".prdStock", ".stockStatus"],
+    delivery: [".prdDelivery"],
+  },
+  searchSteps: [
+    { action: "waitForSelector", selector: "#searchFieldInputField", timeout: 10000 },
+    { action: "fill", selector: "#searchFieldInputField", value: "" },
+    { action: "fill", selector: "#searchFieldInputField", value: SEARCH_TERM_PLACEHOLDER },
+    { action: "press", selector: "#searchFieldInputField", key: "Enter" },
+    { action: "waitForLoadState", state: "networkidle" },
+  ],
+  pagination: { type: "loadMore", selector: ".btnLoadMore" },
+  parsePrice: parseEuroPrice,
+  parseAvailability: parseDutchAvailability,
+};
+
+export const COOLBLUE_ADAPTER: StoreAdapter = {
+  selectors: {
+    product: [".product-grid__card"],
+    name: [".product-card__title"],
+    price: [".js-sales-price-wrapper"],
+    url: [".product-card__title a[href]", "a[href]"],
+    availability: [".product-card__delivery", ".js-delivery-information"],
+    delivery: [".product-card__delivery", ".js-delivery-information"],
+  },
+  pagination: { type: "pageParam", param: "pagina", firstPage: 1 },
+  parsePrice: parseEuroPrice,
+  parseAvailability: parseDutchAvailability,
+};
+
+export const ALTERNATE_ADAPTER: StoreAdapter = {
+  selectors: {
+    product: [".productBox"],
+    name: [".product-name"],
+    price: [".price"],
+    url: ["a[href]"],
+    availability: [".delivery-info", ".availability"],
+    delivery: [".delivery-info"],
+    seller: [".marketplace-seller"],
+  },
+  pagination: { type: "pageParam", param: "page", firstPage: 1 },
+  parsePrice: parseEuroPrice,
+  parseAvailability: parseDutchAvailability,
+};
+
+export const AZERTY_ADAPTER: StoreAdapter = {
+  selectors: {
+    product: [".product-item"],
+    name: [".product-item-link"],
+    price: [".price"],
+    url: [".product-item-link[href]", "a[href]"],
+    availability: [".stock", ".availability"],
+    delivery: [".delivery-time", ".levertijd"],
+  },
+  pagination: { type: "nextLink", selector: "a.action.next" },
+  parsePrice: parseEuroPrice,
+  parseAvailability: parseDutchAvailability,
+};
+
+export const ADAPTERS: Readonly<Record<string, StoreAdapter>> = {
+  megekko: MEGEKKO_ADAPTER,
+  coolblue: COOLBLUE_ADAPTER,
+  alternate: ALTERNATE_ADAPTER,
+  azerty: AZERTY_ADAPTER,
+};
@@ -0,0 +1,132 @@
+import { Category } from '../types.js';
+
+export interface CategoryDefinition {
+  readonly id: Category;
+  readonly label: string;
+  readonly icon: string;
+  // Lower runs first, so specific categories claim a listing before broad brand keywords do
+  readonly priority: number;
+  readonly matches: (productName: string) => boolean;
+  readonly searchTerms: readonly string[];
+}
+
+const normalizeName = (text: string): string => text.replace(/\s+/g, "").toLowerCase();
+
+const matchesAnyKeyword = (keywords: readonly string[]) => (productName: string): boolean => {
+  const name = normalizeName(productName);
+  return keywords.some((keyword) => name.includes(normalizeName(keyword)));
+};
+
+const matchesAnyPattern = (patterns: readonly RegExp[]) => (productName: string): boolean =>
+  patterns.some((pattern) => pattern.test(productName));
+
+// Chipset names only: board partners such as MSI, Gigabyte and XFX also sell motherboards,
+// laptops and PSUs, so their names say nothing about the category. Integrated graphics
+// ("Radeon graphics", "Radeon 760M") are left to the processor they come with.
+const GPU_PATTERNS: readonly RegExp[] = [
+  /\b(radeon|geforce)\b(?!\s+(graphics|vega|\d{3}m)\b)/i,
+  /\brx\s*\d{4}\s*(xtx|xt|gre)?\b/i,
+  /\b(rtx|gtx)\s*\d{4}\b/i,
+  /\b(7700|7800|7900|9060|9070)\s*xtx?\b/i,
+  /\b(5070|5080|5090|4070|4080|4090)\s*(ti\s*super|ti|super)\b/i,
+] as const;
+
+const CPU_KEYWORDS: readonly string[] = ["ryzen 7", "ryzen 9", "ryzen 5", "core2duo"] as const;
+
+const MOTHERBOARD_PATTERNS: readonly RegExp[] = [
+  /\b(moederbord|motherboard|mainboard)\b/i,
+  /\b(a520|a620|b450|b550|b650e?|b840|b850|x570|x670e?|x870e?|b660|b760|b860|h610|h770|z690|z790|z890)\b/i,
+] as const;
+
+const PSU_PATTERNS: readonly RegExp[] = [
+  /\b(voeding|power supply|psu)\b/i,
+  /\b80\s*(\+|plus)\s*(bronze|silver|gold|platinum|titanium)?\b/i,
+  /\b([5-9]\d0|1[0-6]\d0)\s*w(att)?\b/i,
+] as const;
+
+const SSD_PATTERNS: readonly RegExp[] = [
+  /\b(ssd|nvme|solid state)\b/i,
+  /\bm\.2\b.*\b\d+\s*tb\b/i,
+] as const;
+
+// "GDDR6" on graphics cards must not count, hence the word boundary before "ddr"
+const RAM_PATTERNS: readonly RegExp[] = [
+  /\bddr[345]\b.*(\bcl\d{2}\b|\bdimm\b|geheugen|memory|\bram\b|\d\s*x\s*\d+\s*gb)/i,
+  /(\bcl\d{2}\b|\bdimm\b|geheugen|memory|\bram\b|\d\s*x\s*\d+\s*gb).*\bddr[345]\b/i,
+] as const;
+
+export const CATEGORIES: readonly CategoryDefinition[] = [
+  {
+    id: "GPU",
+    label: "GPUs",
+    icon: "🎮",
+    priority: 5,
+    matches: matchesAnyPattern(GPU_PATTERNS),
+    searchTerms: [
+      "AMD Radeon 7700XT", "AMD Radeon 7900XT", "AMD Radeon 7900XTX",
+      "NVIDIA GeForce 5070 ti", "NVIDIA GeForce 5080", "NVIDIA GeForce 4070 TI Super",
+    ],
+  },
+  {
+    id: "CPU",
+    label: "CPUs",
+    icon: "🖥️ ",
+    priority: 6,
+    matches: matchesAnyKeyword(CPU_KEYWORDS),
+    searchTerms: [
+      "AMD Ryzen 9950X3D", "AMD Ryzen 9900X3D", "AMD Ryzen 7950X3D", "AMD Ryzen 7800X3D", "AMD Ryzen 7900X3D",
+    ],
+  },
+  {
+    id: "RAM",
+    label: "RAM",
+    icon: "🧠",
+    priority: 4,
+    matches: matchesAnyPattern(RAM_PATTERNS),
+    searchTerms: ["DDR5 32GB 6000 CL30"],
+  },
+  {
+    id: "MOTHERBOARD",
+    label: "Motherboards",
+    icon: "🧩",
+    priority: 1,
+    matches: matchesAnyPattern(MOTHERBOARD_PATTERNS),
+    searchTerms: ["AM5 moederbord B650", "AM5 moederbord X870"],
+  },
+  {
+    id: "SSD",
+    label: "NVMe SSDs",
+    icon: "💽",
+    priority: 3,
+    matches: matchesAnyPattern(SSD_PATTERNS),
+    searchTerms: ["NVMe SSD 2TB"],
+  },
+  {
+    id: "PSU",
+    label: "PSUs",
+    icon: "🔌",
+    priority: 2,
+    matches: matchesAnyPattern(PSU_PATTERNS),
+    searchTerms: ["850W voeding"],
+  },
+] as const;
+
+const CLASSIFICATION_ORDER: readonly CategoryDefinition[] = [...CATEGORIES].sort(
+  (a, b) => a.priority - b.priority
+);
+
+export const isCategory = (value: unknown): value is Category =>
+  CATEGORIES.some((category) => category.id === value);
+
+export const getCategory = (id: Category): CategoryDefinition | undefined =>
+  CATEGORIES.find((category) => category.id === id);
+
+export const matchesCategory = (id: Category, productName: string): boolean =>
+  getCategory(id)?.matches(productName) ?? false;
+
+export const classifyProduct = (productName: string): Category | null =>
+  CLASSIFICATION_ORDER.find((category) => category.matches(productName))?.id ?? null;
+
+// Every category a name matches, in classification order; more than one makes the listing ambiguous
+export const getMatchingCategories = (productName: string): readonly Category[] =>
+  CLASSIFICATION_ORDER.filter((category) => category.matches(productName)).map((category) => category.id);
@@ -1,32 +1,39 @@
-export interface Store {
-  readonly name: string;
-  readonly baseUrl: string;
-  readonly searchPath: string;
-  readonly searchParam: string;
-  readonly requiresBrowser: boolean;
+import { StoreAdapter, StoreConfig } from '../types.js';
+import { CATEGORIES } from './categories.js';
+import { ADAPTERS } from './adapters.js';
+
+export interface Store extends Omit<StoreConfig, "adapter"> {
+  readonly adapter: StoreAdapter;
 }
 
-export const STORES: readonly Store[] = [
+// The stores migration 9 seeds into the store table; the active set is managed through /stores
+export const DEFAULT_STORES: readonly StoreConfig[] = [
   {
     name: "Megekko",
     baseUrl: "https://www.megekko.nl",
     searchPath: "/zoeken",
     searchParam: "q",
-    requiresBrowser: true
+    requiresBrowser: true,
+    adapter: "megekko",
+    rateLimit: { requestsPerMinute: 10, concurrency: 1 }
   },
   {
     name: "Coolblue",
     baseUrl: "https://www.coolblue.nl",
     searchPath: "/zoeken",
     searchParam: "query",
-    requiresBrowser: false
+    requiresBrowser: false,
+    adapter: "coolblue",
+    rateLimit: { requestsPerMinute: 20, concurrency: 2 }
   },
   {
     name: "Alternate",
     baseUrl: "https://www.alternate.nl",
     searchPath: "/listing.xhtml",
     searchParam: "q",
-    requiresBrowser: false
+    requiresBrowser: false,
+    adapter: "alternate",
+    rateLimit: { requestsPerMinute: 20, concurrency: 2 }
   },
   {
     name: "Azerty",
@@ -34,11 +41,14 @@ export const STORES: readonly Store[] = [
     searchPath: "/catalogsearch/result/",
     searchParam: "q",
     requiresBrowser: false,
+    adapter: "azerty",
+    rateLimit: { requestsPerMinute: 15, concurrency: 1 },
   },
 ] as const;
 
-export const SEARCH_TERMS: readonly string[] = [
-  "AMD Radeon 7700XT", "AMD Radeon 7900XT", "AMD Radeon 7900XTX",
-  "NVIDIA GeForce 5070 ti", "NVIDIA GeForce 5080", "NVIDIA GeForce 4070 TI Super",
-  "AMD Ryzen 9950X3D", "AMD Ryzen 9900X3D", "AMD Ryzen 7950X3D", "AMD Ryzen 7800X3D", "AMD Ryzen 7900X3D"
-] as const;
\ No newline at end of file
+export const DEFAULT_SEARCH_TERMS: readonly string[] = CATEGORIES.flatMap((category) => category.searchTerms);
+
+export const resolveStore = (config: StoreConfig): Store | null => {
+  const adapter = ADAPTERS[config.adapter];
+  return adapter ? { ...config, adapter } : null;
+};
@@ -0,0 +1,134 @@
+// Minimal 5-field cron support: "minute hour day-of-month month day-of-week",
+// with *, lists (1,15), ranges (1-5) and steps (*/15, 0-30/10), evaluated in server local time
+
+interface CronExpression {
+  readonly minutes: ReadonlySet<number>;
+  readonly hours: ReadonlySet<number>;
+  readonly daysOfMonth: ReadonlySet<number>;
+  readonly months: ReadonlySet<number>;
+  readonly daysOfWeek: ReadonlySet<number>;
+  readonly anyDayOfMonth: boolean;
+  readonly anyDayOfWeek: boolean;
+}
+
+const FIELD_RANGES: readonly (readonly [number, number])[] = [
+  [0, 59],
+  [0, 23],
+  [1, 31],
+  [1, 12],
+  [0, 7],
+] as const;
+
+const MAX_SEARCH_MINUTES = 366 * 24 * 60;
+
+const parseNumber = (value: string, min: number, max: number): number => {
+  const parsed = Number(value);
+  if (!/^\d+$/.test(value) || parsed < min || parsed > max) {
+    throw new Error(`Invalid cron value "${value}" (expected ${min}-${max})`);
+  }
+  return parsed;
+};
+
+const parseField = (field: string, min: number, max: number): Set<number> => {
+  const values = new Set<number>();
+
+  for (const part of field.split(",")) {
+    const [range = "", stepText] = part.split("/");
+    const step = stepText === undefined ? 1 : parseNumber(stepText, 1, max);
+
+    const [start, end] =
+      range === "*"
+        ? [min, max]
+        : range.includes("-")
+          ? range.split("-").map((value) => parseNumber(value, min, max))
+          : [parseNumber(range, min, max), stepText === undefined ? parseNumber(range, min, max) : max];
+
+    if (start === undefined || end === undefined || start > end) {
+      throw new Error(`Invalid cron range "${part}"`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+};
+
+const parseCron = (expression: string): CronExpression => {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Invalid cron expression "${expression}" (expected 5 fields)`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) => {
+    const [min, max] = FIELD_RANGES[index] ?? [0, 0];
+    return parseField(field, min, max);
+  }) as [Set<number>, Set<number>, Set<number>, Set<number>, Set<number>];
+
+  // Both 0 and 7 mean Sunday
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: fields[2] === "*",
+    anyDayOfWeek: fields[4] === "*",
+  };
+};
+
+// When both day fields are restricted, cron matches either of them
+const matchesDay = (cron: CronExpression, date: Date): boolean => {
+  const dayOfMonth = cron.daysOfMonth.has(date.getDate());
+  const dayOfWeek = cron.daysOfWeek.has(date.getDay());
+
+  if (cron.anyDayOfMonth || cron.anyDayOfWeek) {
+    return dayOfMonth && dayOfWeek;
+  }
+  return dayOfMonth || dayOfWeek;
+};
+
+const getNextRun = (expression: string, after: Date): Date => {
+  const cron = parseCron(expression);
+  const date = new Date(after);
+  date.setSeconds(0, 0);
+  date.setMinutes(date.getMinutes() + 1);
+
+  for (let i = 0; i < MAX_SEARCH_MINUTES; i++) {
+    if (!cron.months.has(date.getMonth() + 1)) {
+      date.setMonth(date.getMonth() + 1, 1);
+      date.setHours(0, 0);
+    } else if (!matchesDay(cron, date)) {
+      date.setDate(date.getDate() + 1);
+      date.setHours(0, 0);
+    } else if (!cron.hours.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0);
+    } else if (!cron.minutes.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1);
+    } else {
+      return date;
+    }
+  }
+
+  throw new Error(`Cron expression "${expression}" never matches`);
+};
+
+const isValidCron = (expression: string): boolean => {
+  try {
+    getNextRun(expression, new Date());
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export {
+  parseCron,
+  getNextRun,
+  isValidCron
+};
@@ -1,10 +1,23 @@
 import Database from 'better-sqlite3';
-import { Item } from './types.js';
+import fs from 'fs';
+import path from 'path';
+import { getSchemaVersion as querySchemaVersion, runMigrations } from './migrations.js';
+import { normalizeProduct } from './matching.js';
+import { CATEGORIES } from './config/categories.js';
+import { Availability, CanonicalModel, Category, ChipsetPricePoint, Item, Offer, PricePoint, PriceRecord, ExportFilters, ProductStats, RejectedListing, RejectedListingInput, RejectionFilters, RejectionReason, RunInsights, RunReport, RunReportInput, Schedule, ScheduleInput, SearchHistoryEntry, SearchReport, SearchTerm, SearchTermInput, StoredItem, StoreInput, StoreRecord, Watch, WatchInput } from './types.js';
 
 type DatabaseConnection = Database.Database;
 
-const createDatabaseConnection = (): DatabaseConnection => 
-  new Database('./data/db.sqlite');
+const DB_PATH = process.env.DB_PATH ?? './data/db.sqlite';
+
+const createDatabaseConnection = (): DatabaseConnection => {
+  fs.mkdirSync(path.dirname(DB_PATH), { recursive: true });
+  const db = new Database(DB_PATH);
+  // SQLite leaves foreign keys unenforced on every new connection unless asked;
+  // runMigrations only turns them off around its own batch
+  db.pragma('foreign_keys = ON');
+  return db;
+};
 
 const findStoreId = (db: DatabaseConnection, storeName: string): number | undefined => {
   const stmt = db.prepare('SELECT id FROM store WHERE name = ?');
@@ -79,10 +92,73 @@ const linkItemToScrape = (db: DatabaseConnection, scrapeId: number, itemId: numb
   stmt.run(scrapeId, itemId);
 };
 
+const recordPrice = (db: DatabaseConnection, scrapeId: number, itemId: number, product: Item): void => {
+  const stmt = db.prepare(`
+    INSERT INTO price_history (scrape_id, item_id, price, url, availability, delivery_estimate, seller, is_marketplace) 
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  stmt.run(
+    scrapeId,
+    itemId,
+    product.price,
+    product.url,
+    product.availability ?? 'unknown',
+    product.deliveryEstimate ?? null,
+    product.seller ?? null,
+    product.isMarketplace === undefined ? null : product.isMarketplace ? 1 : 0
+  );
+};
+
+const getOrCreateCanonicalProductId = (db: DatabaseConnection, model: CanonicalModel): number => {
+  const stmt = db.prepare(`
+    INSERT INTO canonical_product (canonical_key, item_type, chipset, brand, variant, memory_gb) 
+    VALUES (?, ?, ?, ?, ?, ?)
+    ON CONFLICT (canonical_key) DO UPDATE SET memory_gb = COALESCE(canonical_product.memory_gb, excluded.memory_gb)
+    RETURNING id
+  `);
+  const result = stmt.get(
+    model.key,
+    model.category,
+    model.chipset,
+    model.brand,
+    model.variant,
+    model.memoryGb
+  ) as { id: number };
+  return result.id;
+};
+
+const linkItemToCanonicalProduct = (db: DatabaseConnection, itemId: number, product: Item): void => {
+  const model = normalizeProduct(product.name, product.category);
+  if (!model) return;
+
+  const canonicalProductId = getOrCreateCanonicalProductId(db, model);
+  const stmt = db.prepare(`
+    INSERT OR REPLACE INTO canonical_item (item_id, canonical_product_id) 
+    VALUES (?, ?)
+  `);
+  stmt.run(itemId, canonicalProductId);
+};
+
+const saveItemIdentifiers = (db: DatabaseConnection, itemId: number, product: Item): void => {
+  if (!product.gtin && !product.sku) return;
+
+  const stmt = db.prepare(`
+    INSERT INTO item_identifier (item_id, gtin, sku) 
+    VALUES (?, ?, ?)
+    ON CONFLICT (item_id) DO UPDATE SET 
+      gtin = COALESCE(excluded.gtin, item_identifier.gtin),
+      sku = COALESCE(excluded.sku, item_identifier.sku)
+  `);
+  stmt.run(itemId, product.gtin ?? null, product.sku ?? null);
+};
+
 const processProduct = (db: DatabaseConnection, product: Item, scrapeId: number): void => {
   const storeId = getOrCreateStoreId(db, product.store);
   const itemId = getOrCreateItemId(db, product, storeId);
   linkItemToScrape(db, scrapeId, itemId);
+  recordPrice(db, scrapeId, itemId, product);
+  linkItemToCanonicalProduct(db, itemId, product);
+  saveItemIdentifiers(db, itemId, product);
 };
 
 const saveProductsToDatabase = (db: DatabaseConnection, products: readonly Item[]): number => {
@@ -96,87 +172,93 @@ const saveProductsToDatabase = (db: DatabaseConnection, products: readonly Item[
   return scrapeId;
 };
 
-const queryLatestProducts = (db: DatabaseConnection, limit: number): readonly Item[] => {
+const PRODUCT_COLUMNS = `
+    i.id, i.name, i.price, i.url, s.name as store, i.item_type as category,
+    ph.availability, ph.delivery_estimate, ph.seller, ph.is_marketplace
+`;
+
+type ProductRow = {
+  name: string;
+  price: number;
+  url: string;
+  store: string;
+  category: string;
+  availability: string | null;
+  delivery_estimate: string | null;
+  seller: string | null;
+  is_marketplace: number | null;
+};
+
+const toItem = (row: ProductRow): Item => ({
+  name: row.name,
+  price: row.price,
+  url: row.url,
+  store: row.store,
+  category: row.category as Category,
+  availability: (row.availability ?? 'unknown') as Availability,
+  ...(row.delivery_estimate ? { deliveryEstimate: row.delivery_estimate } : {}),
+  ...(row.seller ? { seller: row.seller } : {}),
+  ...(row.is_marketplace !== null ? { isMarketplace: row.is_marketplace === 1 } : {})
+});
+
+type StoredProductRow = ProductRow & {
+  id: number;
+};
+
+// The id is what GET /products/:id/history takes
+const toStoredItem = (row: StoredProductRow): StoredItem => ({
+  id: row.id,
+  ...toItem(row)
+});
+
+const queryLatestProducts = (db: DatabaseConnection, limit: number, excludeOutOfStock: boolean): readonly StoredItem[] => {
   const stmt = db.prepare(`
-    SELECT i.name, i.price, i.url, s.name as store, i.item_type as category
+    SELECT ${PRODUCT_COLUMNS}
     FROM item i
     JOIN store s ON i.store_id = s.id
+    LEFT JOIN price_history ph ON ph.id = (SELECT MAX(id) FROM price_history WHERE item_id = i.id)
+    WHERE (? = 0 OR ph.availability IS NULL OR ph.availability != 'out_of_stock')
     ORDER BY i.id DESC
     LIMIT ?
   `);
 
-  const results = stmt.all(limit) as Array<{
-    name: string;
-    price: number;
-    url: string;
-    store: string;
-    category: string;
-  }>;
-
-  return results.map(row => ({
-    name: row.name,
-    price: row.price,
-    url: row.url,
-    store: row.store,
-    category: row.category as 'GPU' | 'CPU'
-  }));
+  const results = stmt.all(excludeOutOfStock ? 1 : 0, limit) as StoredProductRow[];
+  return results.map(toStoredItem);
 };
 
-const queryProductsByCategory = (db: DatabaseConnection, category: 'GPU' | 'CPU', limit: number): readonly Item[] => {
+const queryProductsByCategory = (db: DatabaseConnection, category: Category, limit: number, excludeOutOfStock: boolean): readonly StoredItem[] => {
   const stmt = db.prepare(`
-    SELECT i.name, i.price, i.url, s.name as store, i.item_type as category
+    SELECT ${PRODUCT_COLUMNS}
     FROM item i
     JOIN store s ON i.store_id = s.id
+    LEFT JOIN price_history ph ON ph.id = (SELECT MAX(id) FROM price_history WHERE item_id = i.id)
     WHERE i.item_type = ?
+    AND (? = 0 OR ph.availability IS NULL OR ph.availability != 'out_of_stock')
     ORDER BY i.id DESC
     LIMIT ?
   `);
 
-  const results = stmt.all(category, limit) as Array<{
-    name: string;
-    price: number;
-    url: string;
-    store: string;
-    category: string;
-  }>;
-
-  return results.map(row => ({
-    name: row.name,
-    price: row.price,
-    url: row.url,
-    store: row.store,
-    category: row.category as 'GPU' | 'CPU'
-  }));
+  const results = stmt.all(category, excludeOutOfStock ? 1 : 0, limit) as StoredProductRow[];
+  return results.map(toStoredItem);
 };
 
-const queryProductsByStore = (db: DatabaseConnection, store: string, limit: number): readonly Item[] => {
+const queryProductsByStore = (db: DatabaseConnection, store: string, limit: number, excludeOutOfStock: boolean): readonly StoredItem[] => {
   const stmt = db.prepare(`
-    SELECT i.name, i.price, i.url, s.name as store, i.item_type as category
+    SELECT ${PRODUCT_COLUMNS}
     FROM item i
     JOIN store s ON i.store_id = s.id
+    LEFT JOIN price_history ph ON ph.id = (SELECT MAX(id) FROM price_history WHERE item_id = i.id)
     WHERE s.name = ?
+    AND (? = 0 OR ph.availability IS NULL OR ph.availability != 'out_of_stock')
     ORDER BY i.id DESC
     LIMIT ?
   `);
 
-  const results = stmt.all(store, limit) as Array<{
-    name: string;
-    price: number;
-    url: string;
-    store: string;
-    category: string;
-  }>;
-
-  return results.map(row => ({
-    name: row.name,
-    price: row.price,
-    url: row.url,
-    store: row.store,
-    category: row.category as 'GPU' | 'CPU'
-  }));
+  const results = stmt.all(store, excludeOutOfStock ? 1 : 0, limit) as StoredProductRow[];
+  return results.map(toStoredItem);
 };
 
-const queryProductStats = (db: DatabaseConnection): { readonly total: number; readonly gpu: number; readonly cpu: number; readonly stores: readonly string[] } => {
+const queryProductStats = (db: DatabaseConnection): ProductStats => {
   const totalStmt = db.prepare('SELECT COUNT(*) as count FROM item');
   const categoryStmt = db.prepare(`
     SELECT item_type, COUNT(*) as count 
@@ -193,18 +275,740 @@ const queryProductStats = (db: DatabaseConnection): { readonly total: number; re
   const categories = categoryStmt.all() as Array<{ item_type: string; count: number }>;
   const stores = storesStmt.all() as Array<{ name: string }>;
 
-  const gpu = categories.find(c => c.item_type === 'GPU')?.count ?? 0;
-  const cpu = categories.find(c => c.item_type === 'CPU')?.count ?? 0;
-
   return {
     total: total.count,
-    gpu,
-    cpu,
+    categories: Object.fromEntries(
+      CATEGORIES.map(category => [
+        category.id,
+        categories.find(c => c.item_type === category.id)?.count ?? 0
+      ])
+    ) as Record<Category, number>,
     stores: stores.map(s => s.name)
   };
 };
 
+const queryPriceHistory = (db: DatabaseConnection, itemId: number): readonly PricePoint[] => {
+  const stmt = db.prepare(`
+    SELECT ph.scrape_id as scrapeId, sc.timestamp, ph.price, ph.url
+    FROM price_history ph
+    JOIN scrape sc ON ph.scrape_id = sc.id
+    WHERE ph.item_id = ?
+    ORDER BY sc.timestamp ASC, ph.scrape_id ASC
+  `);
+
+  return stmt.all(itemId) as PricePoint[];
+};
+
+type PriceRecordRow = Omit<PriceRecord, 'isMarketplace'> & { isMarketplace: number | null };
+
+// Keyset pagination instead of iterate(): the connection stays free for other requests
+// while a large export is streamed out in batches
+const queryPriceRecords = (
+  db: DatabaseConnection,
+  filters: ExportFilters,
+  afterId: number,
+  limit: number
+): readonly PriceRecord[] => {
+  const stmt = db.prepare(`
+    SELECT ph.id, ph.scrape_id as scrapeId, sc.timestamp, s.name as store, i.item_type as category, i.name,
+           ph.price, ph.availability, ph.delivery_estimate as deliveryEstimate, ph.seller,
+           ph.is_marketplace as isMarketplace, ph.url
+    FROM price_history ph
+    JOIN scrape sc ON ph.scrape_id = sc.id
+    JOIN item i ON ph.item_id = i.id
+    JOIN store s ON i.store_id = s.id
+    WHERE ph.id > @afterId
+      AND (@category IS NULL OR i.item_type = @category)
+      AND (@store IS NULL OR s.name = @store COLLATE NOCASE)
+      AND (@from IS NULL OR sc.timestamp >= @from)
+      AND (@to IS NULL OR sc.timestamp < @to)
+    ORDER BY ph.id
+    LIMIT @limit
+  `);
+
+  const rows = stmt.all({
+    afterId,
+    limit,
+    category: filters.category ?? null,
+    store: filters.store ?? null,
+    from: filters.from ?? null,
+    to: filters.to ?? null
+  }) as PriceRecordRow[];
+
+  return rows.map(row => ({
+    ...row,
+    isMarketplace: row.isMarketplace === null ? null : row.isMarketplace === 1
+  }));
+};
+
+// Daily lows per chipset, for listings that could be mapped to a canonical model
+const queryChipsetPriceHistory = (db: DatabaseConnection, since: string): readonly ChipsetPricePoint[] => {
+  const stmt = db.prepare(`
+    SELECT cp.item_type as category, cp.chipset, substr(sc.timestamp, 1, 10) as day,
+           MIN(ph.price) as minPrice, COUNT(*) as offerCount
+    FROM price_history ph
+    JOIN scrape sc ON ph.scrape_id = sc.id
+    JOIN canonical_item ci ON ci.item_id = ph.item_id
+    JOIN canonical_product cp ON cp.id = ci.canonical_product_id
+    WHERE sc.timestamp >= ? AND ph.price > 0
+    GROUP BY cp.item_type, cp.chipset, day
+    ORDER BY cp.chipset, day
+  `);
+
+  return stmt.all(since) as ChipsetPricePoint[];
+};
+
+// Offers read the price, URL and availability observed in a scrape rather than the latest item values
+const OFFER_COLUMNS = `
+    i.id as itemId, i.name, ph.price, ph.url, s.name as store, i.item_type as category,
+    ph.availability, ph.delivery_estimate, ph.seller, ph.is_marketplace,
+    (
+      SELECT prev.price FROM price_history prev
+      WHERE prev.item_id = ph.item_id AND prev.scrape_id < ph.scrape_id
+      ORDER BY prev.scrape_id DESC
+      LIMIT 1
+    ) as previousPrice
+`;
+
+type OfferRow = ProductRow & {
+  itemId: number;
+  previousPrice: number | null;
+};
+
+const toOffer = (row: OfferRow): Offer => ({
+  ...toItem(row),
+  itemId: row.itemId,
+  previousPrice: row.previousPrice
+});
+
+const queryScrapeOffers = (db: DatabaseConnection, scrapeId: number): readonly Offer[] => {
+  const stmt = db.prepare(`
+    SELECT ${OFFER_COLUMNS}
+    FROM price_history ph
+    JOIN item i ON ph.item_id = i.id
+    JOIN store s ON i.store_id = s.id
+    WHERE ph.scrape_id = ?
+  `);
+
+  return (stmt.all(scrapeId) as OfferRow[]).map(toOffer);
+};
+
+// Listings not seen for this long count as delisted
+const OFFER_MAX_AGE_DAYS = parseInt(process.env.OFFER_MAX_AGE_DAYS ?? "") || 14;
+
+// The latest observation of every item, so a run limited to some search terms
+// does not hide the models it skipped
+const queryLatestOffers = (db: DatabaseConnection): readonly Offer[] => {
+  const stmt = db.prepare(`
+    WITH latest AS (
+      SELECT item_id, MAX(scrape_id) as scrape_id
+      FROM price_history
+      GROUP BY item_id
+    )
+    SELECT ${OFFER_COLUMNS}
+    FROM price_history ph
+    JOIN latest l ON l.item_id = ph.item_id AND l.scrape_id = ph.scrape_id
+    JOIN scrape sc ON sc.id = ph.scrape_id
+    JOIN item i ON ph.item_id = i.id
+    JOIN store s ON i.store_id = s.id
+    WHERE sc.timestamp >= ?
+    ORDER BY ph.price ASC
+  `);
+
+  const since = new Date(Date.now() - OFFER_MAX_AGE_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  return (stmt.all(since) as OfferRow[]).map(toOffer);
+};
+
+type WatchRow = {
+  id: number;
+  query: string;
+  store: string | null;
+  item_type: string | null;
+  max_price: number | null;
+  drop_percent: number | null;
+  enabled: number;
+  created_at: string;
+};
+
+const toWatch = (row: WatchRow): Watch => ({
+  id: row.id,
+  query: row.query,
+  store: row.store,
+  category: row.item_type as Watch['category'],
+  maxPrice: row.max_price,
+  dropPercent: row.drop_percent,
+  enabled: row.enabled === 1,
+  createdAt: row.created_at
+});
+
+const queryWatches = (db: DatabaseConnection): readonly Watch[] => {
+  const stmt = db.prepare('SELECT * FROM watch ORDER BY id');
+  return (stmt.all() as WatchRow[]).map(toWatch);
+};
+
+const queryWatch = (db: DatabaseConnection, watchId: number): Watch | undefined => {
+  const stmt = db.prepare('SELECT * FROM watch WHERE id = ?');
+  const row = stmt.get(watchId) as WatchRow | undefined;
+  return row ? toWatch(row) : undefined;
+};
+
+const insertWatch = (db: DatabaseConnection, watch: WatchInput): number => {
+  const stmt = db.prepare(`
+    INSERT INTO watch (query, store, item_type, max_price, drop_percent, enabled, created_at) 
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `);
+  const result = stmt.run(
+    watch.query,
+    watch.store,
+    watch.category,
+    watch.maxPrice,
+    watch.dropPercent,
+    watch.enabled ? 1 : 0,
+    new Date().toISOString()
+  );
+  return result.lastInsertRowid as number;
+};
+
+const updateWatch = (db: DatabaseConnection, watchId: number, watch: WatchInput): void => {
+  const stmt = db.prepare(`
+    UPDATE watch 
+    SET query = ?, store = ?, item_type = ?, max_price = ?, drop_percent = ?, enabled = ? 
+    WHERE id = ?
+  `);
+  stmt.run(
+    watch.query,
+    watch.store,
+    watch.category,
+    watch.maxPrice,
+    watch.dropPercent,
+    watch.enabled ? 1 : 0,
+    watchId
+  );
+};
+
+const removeWatch = (db: DatabaseConnection, watchId: number): boolean => {
+  const transaction = db.transaction((watchId: number) => {
+    db.prepare('DELETE FROM watch_alert WHERE watch_id = ?').run(watchId);
+    return db.prepare('DELETE FROM watch WHERE id = ?').run(watchId).changes > 0;
+  });
+
+  return transaction(watchId);
+};
+
+const findWatchAlert = (db: DatabaseConnection, watchId: number, itemId: number, price: number): boolean => {
+  const stmt = db.prepare(`
+    SELECT 1 FROM watch_alert 
+    WHERE watch_id = ? AND item_id = ? AND price = ?
+  `);
+  return stmt.get(watchId, itemId, price) !== undefined;
+};
+
+const insertWatchAlert = (db: DatabaseConnection, watchId: number, itemId: number, scrapeId: number, price: number): void => {
+  const stmt = db.prepare(`
+    INSERT OR IGNORE INTO watch_alert (watch_id, item_id, scrape_id, price, fired_at) 
+    VALUES (?, ?, ?, ?, ?)
+  `);
+  stmt.run(watchId, itemId, scrapeId, price, new Date().toISOString());
+};
+
+type ScheduleRow = {
+  id: number;
+  name: string;
+  cron: string;
+  stores: string | null;
+  search_terms: string | null;
+  enabled: number;
+  catch_up: number;
+  last_run_at: string | null;
+  next_run_at: string | null;
+  last_job_id: string | null;
+};
+
+const toSchedule = (row: ScheduleRow): Schedule => ({
+  id: row.id,
+  name: row.name,
+  cron: row.cron,
+  stores: row.stores ? JSON.parse(row.stores) : null,
+  searchTerms: row.search_terms ? JSON.parse(row.search_terms) : null,
+  enabled: row.enabled === 1,
+  catchUp: row.catch_up === 1,
+  lastRunAt: row.last_run_at,
+  nextRunAt: row.next_run_at,
+  lastJobId: row.last_job_id
+});
+
+const querySchedules = (db: DatabaseConnection): readonly Schedule[] => {
+  const stmt = db.prepare('SELECT * FROM schedule ORDER BY id');
+  return (stmt.all() as ScheduleRow[]).map(toSchedule);
+};
+
+// Entries are matched by name so replacing the schedule keeps their run state
+const replaceSchedules = (db: DatabaseConnection, schedules: readonly ScheduleInput[]): void => {
+  const upsertStmt = db.prepare(`
+    INSERT INTO schedule (name, cron, stores, search_terms, enabled, catch_up) 
+    VALUES (?, ?, ?, ?, ?, ?)
+    ON CONFLICT (name) DO UPDATE SET 
+      cron = excluded.cron,
+      stores = excluded.stores,
+      search_terms = excluded.search_terms,
+      enabled = excluded.enabled,
+      catch_up = excluded.catch_up,
+      next_run_at = CASE WHEN schedule.cron = excluded.cron THEN schedule.next_run_at ELSE NULL END
+  `);
+
+  const transaction = db.transaction((schedules: readonly ScheduleInput[]) => {
+    const names = schedules.map(schedule => schedule.name);
+    db.prepare(`DELETE FROM schedule WHERE name NOT IN (SELECT value FROM json_each(?))`).run(JSON.stringify(names));
+
+    schedules.forEach(schedule => upsertStmt.run(
+      schedule.name,
+      schedule.cron,
+      schedule.stores ? JSON.stringify(schedule.stores) : null,
+      schedule.searchTerms ? JSON.stringify(schedule.searchTerms) : null,
+      schedule.enabled ? 1 : 0,
+      schedule.catchUp ? 1 : 0
+    ));
+  });
+
+  transaction(schedules);
+};
+
+const updateScheduleRun = (
+  db: DatabaseConnection,
+  scheduleId: number,
+  runState: Pick<Schedule, 'lastRunAt' | 'nextRunAt' | 'lastJobId'>
+): void => {
+  const stmt = db.prepare(`
+    UPDATE schedule 
+    SET last_run_at = ?, next_run_at = ?, last_job_id = ? 
+    WHERE id = ?
+  `);
+  stmt.run(runState.lastRunAt, runState.nextRunAt, runState.lastJobId, scheduleId);
+};
+
+type StoreRow = {
+  id: number;
+  name: string;
+  base_url: string;
+  search_path: string;
+  search_param: string;
+  requires_browser: number;
+  adapter: string;
+  requests_per_minute: number;
+  concurrency: number;
+  enabled: number;
+};
+
+const toStoreRecord = (row: StoreRow): StoreRecord => ({
+  id: row.id,
+  name: row.name,
+  baseUrl: row.base_url,
+  searchPath: row.search_path,
+  searchParam: row.search_param,
+  requiresBrowser: row.requires_browser === 1,
+  adapter: row.adapter,
+  rateLimit: { requestsPerMinute: row.requests_per_minute, concurrency: row.concurrency },
+  enabled: row.enabled === 1
+});
+
+// Stores without a base URL only exist because old scrapes reference them
+const queryStoreRecords = (db: DatabaseConnection): readonly StoreRecord[] => {
+  const stmt = db.prepare('SELECT * FROM store WHERE base_url IS NOT NULL ORDER BY id');
+  return (stmt.all() as StoreRow[]).map(toStoreRecord);
+};
+
+// Includes stores that only exist for history, since their names are taken as well
+const queryStoreIdByName = (db: DatabaseConnection, storeName: string): number | undefined => {
+  const stmt = db.prepare('SELECT id FROM store WHERE name = ? COLLATE NOCASE');
+  const result = stmt.get(storeName) as { id: number } | undefined;
+  return result?.id;
+};
+
+const queryStoreRecord = (db: DatabaseConnection, storeId: number): StoreRecord | undefined => {
+  const stmt = db.prepare('SELECT * FROM store WHERE id = ? AND base_url IS NOT NULL');
+  const row = stmt.get(storeId) as StoreRow | undefined;
+  return row ? toStoreRecord(row) : undefined;
+};
+
+const storeValues = (store: StoreInput): readonly (string | number)[] => [
+  store.name,
+  store.baseUrl,
+  store.searchPath,
+  store.searchParam,
+  store.requiresBrowser ? 1 : 0,
+  store.adapter,
+  store.rateLimit.requestsPerMinute,
+  store.rateLimit.concurrency,
+  store.enabled ? 1 : 0
+];
+
+// A store removed earlier keeps its row for history, so adding it again reuses that row
+const insertStoreRecord = (db: DatabaseConnection, store: StoreInput): number => {
+  const stmt = db.prepare(`
+    INSERT INTO store (name, base_url, search_path, search_param, requires_browser, adapter, requests_per_minute, concurrency, enabled) 
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT (name) DO UPDATE SET 
+      name = excluded.name,
+      base_url = excluded.base_url,
+      search_path = excluded.search_path,
+      search_param = excluded.search_param,
+      requires_browser = excluded.requires_browser,
+      adapter = excluded.adapter,
+      requests_per_minute = excluded.requests_per_minute,
+      concurrency = excluded.concurrency,
+      enabled = excluded.enabled
+    RETURNING id
+  `);
+  return (stmt.get(...storeValues(store)) as { id: number }).id;
+};
+
+const updateStoreRecord = (db: DatabaseConnection, storeId: number, store: StoreInput): void => {
+  const stmt = db.prepare(`
+    UPDATE store 
+    SET name = ?, base_url = ?, search_path = ?, search_param = ?, requires_browser = ?, adapter = ?, 
+        requests_per_minute = ?, concurrency = ?, enabled = ? 
+    WHERE id = ?
+  `);
+  stmt.run(...storeValues(store), storeId);
+};
+
+// Items keep pointing at their store, so a store with history only loses its configuration
+const removeStoreRecord = (db: DatabaseConnection, storeId: number): boolean => {
+  const hasItems = db.prepare('SELECT 1 FROM item WHERE store_id = ? LIMIT 1').get(storeId) !== undefined;
+
+  const stmt = hasItems
+    ? db.prepare(`
+        UPDATE store 
+        SET base_url = NULL, search_path = NULL, search_param = NULL, adapter = NULL, enabled = 0 
+        WHERE id = ? AND base_url IS NOT NULL
+      `)
+    : db.prepare('DELETE FROM store WHERE id = ? AND base_url IS NOT NULL');
+
+  return stmt.run(storeId).changes > 0;
+};
+
+type SearchTermRow = {
+  id: number;
+  term: string;
+  item_type: string | null;
+  enabled: number;
+  created_at: string;
+};
+
+const toSearchTerm = (row: SearchTermRow): SearchTerm => ({
+  id: row.id,
+  term: row.term,
+  category: row.item_type as SearchTerm['category'],
+  enabled: row.enabled === 1,
+  createdAt: row.created_at
+});
+
+const querySearchTerms = (db: DatabaseConnection): readonly SearchTerm[] => {
+  const stmt = db.prepare('SELECT * FROM search_term ORDER BY id');
+  return (stmt.all() as SearchTermRow[]).map(toSearchTerm);
+};
+
+const querySearchTerm = (db: DatabaseConnection, searchTermId: number): SearchTerm | undefined => {
+  const stmt = db.prepare('SELECT * FROM search_term WHERE id = ?');
+  const row = stmt.get(searchTermId) as SearchTermRow | undefined;
+  return row ? toSearchTerm(row) : undefined;
+};
+
+const insertSearchTerm = (db: DatabaseConnection, searchTerm: SearchTermInput): number => {
+  const stmt = db.prepare(`
+    INSERT INTO search_term (term, item_type, enabled, created_at) 
+    VALUES (?, ?, ?, ?)
+  `);
+  const result = stmt.run(
+    searchTerm.term,
+    searchTerm.category,
+    searchTerm.enabled ? 1 : 0,
+    new Date().toISOString()
+  );
+  return result.lastInsertRowid as number;
+};
+
+const updateSearchTerm = (db: DatabaseConnection, searchTermId: number, searchTerm: SearchTermInput): void => {
+  const stmt = db.prepare(`
+    UPDATE search_term 
+    SET term = ?, item_type = ?, enabled = ? 
+    WHERE id = ?
+  `);
+  stmt.run(searchTerm.term, searchTerm.category, searchTerm.enabled ? 1 : 0, searchTermId);
+};
+
+const removeSearchTerm = (db: DatabaseConnection, searchTermId: number): boolean =>
+  db.prepare('DELETE FROM search_term WHERE id = ?').run(searchTermId).changes > 0;
+
+type RunRow = {
+  id: number;
+  job_id: string | null;
+  scrape_id: number | null;
+  status: string;
+  started_at: string;
+  finished_at: string;
+  duration_ms: number;
+  product_count: number;
+  page_count: number;
+};
+
+type RunSearchRow = {
+  store: string;
+  search_term: string;
+  status: string;
+  http_status: number | null;
+  product_count: number;
+  median_price: number | null;
+  invalid_price_count: number;
+  rejected_count: number;
+  page_count: number;
+  duration_ms: number;
+  error_type: string | null;
+  error: string | null;
+};
+
+const toSearchReport = (row: RunSearchRow): SearchReport => ({
+  store: row.store,
+  searchTerm: row.search_term,
+  status: row.status as SearchReport['status'],
+  httpStatus: row.http_status,
+  productCount: row.product_count,
+  medianPrice: row.median_price,
+  invalidPrices: row.invalid_price_count,
+  rejectedCount: row.rejected_count,
+  pages: row.page_count,
+  durationMs: row.duration_ms,
+  errorType: row.error_type as SearchReport['errorType'],
+  error: row.error
+});
+
+const toRunReport = (row: RunRow, searches: readonly SearchReport[]): RunReport => ({
+  id: row.id,
+  jobId: row.job_id,
+  scrapeId: row.scrape_id,
+  status: row.status as RunReport['status'],
+  startedAt: row.started_at,
+  finishedAt: row.finished_at,
+  durationMs: row.duration_ms,
+  productCount: row.product_count,
+  pageCount: row.page_count,
+  searches
+});
+
+const queryRunSearches = (db: DatabaseConnection, runId: number): readonly SearchReport[] => {
+  const stmt = db.prepare('SELECT * FROM run_search WHERE run_id = ? ORDER BY id');
+  return (stmt.all(runId) as RunSearchRow[]).map(toSearchReport);
+};
+
+const queryRunReports = (db: DatabaseConnection, limit: number): readonly RunReport[] => {
+  const stmt = db.prepare('SELECT * FROM run ORDER BY id DESC LIMIT ?');
+  return (stmt.all(limit) as RunRow[]).map((row) => toRunReport(row, queryRunSearches(db, row.id)));
+};
+
+// Runs started through POST /run are also found by their job id
+const queryRunReport = (db: DatabaseConnection, id: number | string): RunReport | undefined => {
+  const stmt = typeof id === 'number'
+    ? db.prepare('SELECT * FROM run WHERE id = ?')
+    : db.prepare('SELECT * FROM run WHERE job_id = ? ORDER BY id DESC LIMIT 1');
+  const row = stmt.get(id) as RunRow | undefined;
+  return row ? toRunReport(row, queryRunSearches(db, row.id)) : undefined;
+};
+
+const insertRunReport = (db: DatabaseConnection, report: RunReportInput): number => {
+  const runStmt = db.prepare(`
+    INSERT INTO run (job_id, status, started_at, finished_at, duration_ms, product_count, page_count) 
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `);
+  const searchStmt = db.prepare(`
+    INSERT INTO run_search (
+      run_id, store, search_term, status, http_status, product_count, median_price, invalid_price_count, rejected_count,
+      page_count, duration_ms, error_type, error
+    ) 
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  const transaction = db.transaction((report: RunReportInput): number => {
+    const result = runStmt.run(
+      report.jobId,
+      report.status,
+      report.startedAt,
+      report.finishedAt,
+      report.durationMs,
+      report.productCount,
+      report.pageCount
+    );
+    const runId = result.lastInsertRowid as number;
+
+    report.searches.forEach((search) => searchStmt.run(
+      runId,
+      search.store,
+      search.searchTerm,
+      search.status,
+      search.httpStatus,
+      search.productCount,
+      search.medianPrice,
+      search.invalidPrices,
+      search.rejectedCount,
+      search.pages,
+      search.durationMs,
+      search.errorType,
+      search.error
+    ));
+    return runId;
+  });
+
+  return transaction(report);
+};
+
+// The latest `limit` results of every store/search term pair, newest first within each pair
+const querySearchHistory = (db: DatabaseConnection, limit: number): readonly SearchHistoryEntry[] => {
+  const stmt = db.prepare(`
+    SELECT * FROM (
+      SELECT 
+        run_search.*,
+        run.finished_at,
+        ROW_NUMBER() OVER (PARTITION BY run_search.store, run_search.search_term ORDER BY run_search.run_id DESC) AS position
+      FROM run_search
+      JOIN run ON run.id = run_search.run_id
+    )
+    WHERE position <= ?
+    ORDER BY store, search_term, run_id DESC
+  `);
+  return (stmt.all(limit) as (RunSearchRow & { run_id: number; finished_at: string })[]).map((row) => ({
+    ...toSearchReport(row),
+    runId: row.run_id,
+    finishedAt: row.finished_at
+  }));
+};
+
+const linkRunToScrape = (db: DatabaseConnection, runId: number, scrapeId: number): void => {
+  db.prepare('UPDATE run SET scrape_id = ? WHERE id = ?').run(scrapeId, runId);
+};
+
+type RejectedListingRow = {
+  id: number;
+  run_id: number;
+  finished_at: string;
+  store: string;
+  search_term: string;
+  name: string;
+  price: number;
+  url: string;
+  item_type: string | null;
+  confidence: number;
+  reason: string;
+  detail: string;
+};
+
+const toRejectedListing = (row: RejectedListingRow): RejectedListing => ({
+  id: row.id,
+  runId: row.run_id,
+  rejectedAt: row.finished_at,
+  store: row.store,
+  searchTerm: row.search_term,
+  name: row.name,
+  price: row.price,
+  url: row.url,
+  category: row.item_type as RejectedListing['category'],
+  confidence: row.confidence,
+  reason: row.reason as RejectionReason,
+  detail: row.detail
+});
+
+const queryRejectedListings = (db: DatabaseConnection, filters: RejectionFilters, limit: number): readonly RejectedListing[] => {
+  const stmt = db.prepare(`
+    SELECT rl.*, r.finished_at
+    FROM rejected_listing rl
+    JOIN run r ON rl.run_id = r.id
+    WHERE (@runId IS NULL OR rl.run_id = @runId)
+      AND (@store IS NULL OR rl.store = @store COLLATE NOCASE)
+      AND (@reason IS NULL OR rl.reason = @reason)
+    ORDER BY rl.id DESC
+    LIMIT @limit
+  `);
+
+  const rows = stmt.all({
+    limit,
+    runId: filters.runId ?? null,
+    store: filters.store ?? null,
+    reason: filters.reason ?? null
+  }) as RejectedListingRow[];
+
+  return rows.map(toRejectedListing);
+};
+
+const insertRejectedListings = (db: DatabaseConnection, runId: number, listings: readonly RejectedListingInput[]): void => {
+  const stmt = db.prepare(`
+    INSERT INTO rejected_listing (run_id, store, search_term, name, price, url, item_type, confidence, reason, detail) 
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  const transaction = db.transaction((listings: readonly RejectedListingInput[]) => {
+    listings.forEach((listing) => stmt.run(
+      runId,
+      listing.store,
+      listing.searchTerm,
+      listing.name,
+      listing.price,
+      listing.url,
+      listing.category,
+      listing.confidence,
+      listing.reason,
+      listing.detail
+    ));
+  });
+
+  transaction(listings);
+};
+
+type RunInsightsRow = {
+  run_id: number;
+  source: string;
+  model: string | null;
+  insights: string;
+  recommendations: string;
+  created_at: string;
+};
+
+const queryRunInsights = (db: DatabaseConnection, runId: number): RunInsights | undefined => {
+  const row = db.prepare('SELECT * FROM run_insights WHERE run_id = ?').get(runId) as RunInsightsRow | undefined;
+  return row
+    ? {
+        runId: row.run_id,
+        source: row.source as RunInsights['source'],
+        model: row.model,
+        insights: row.insights,
+        recommendations: JSON.parse(row.recommendations),
+        createdAt: row.created_at
+      }
+    : undefined;
+};
+
+const upsertRunInsights = (db: DatabaseConnection, insights: Omit<RunInsights, 'createdAt'>): void => {
+  const stmt = db.prepare(`
+    INSERT INTO run_insights (run_id, source, model, insights, recommendations, created_at) 
+    VALUES (?, ?, ?, ?, ?, ?)
+    ON CONFLICT (run_id) DO UPDATE SET 
+      source = excluded.source,
+      model = excluded.model,
+      insights = excluded.insights,
+      recommendations = excluded.recommendations,
+      created_at = excluded.created_at
+  `);
+  stmt.run(
+    insights.runId,
+    insights.source,
+    insights.model,
+    insights.insights,
+    JSON.stringify(insights.recommendations),
+    new Date().toISOString()
+  );
+};
+
 const db = createDatabaseConnection();
+runMigrations(db);
+
+export const getSchemaVersion = (): number => querySchemaVersion(db);
 
 export const saveProducts = (products: readonly Item[]): number => {
   const scrapeId = saveProductsToDatabase(db, products);
@@ -212,14 +1016,136 @@ export const saveProducts = (products: readonly Item[]): number => {
   return scrapeId;
 };
 
-export const getLatestProducts = (limit: number = 50): readonly Item[] => 
-  queryLatestProducts(db, limit);
+export const getLatestProducts = (limit: number = 50, excludeOutOfStock: boolean = false): readonly StoredItem[] => 
+  queryLatestProducts(db, limit, excludeOutOfStock);
+
+export const getProductsByCategory = (category: Category, limit: number = 50, excludeOutOfStock: boolean = false): readonly StoredItem[] => 
+  queryProductsByCategory(db, category, limit, excludeOutOfStock);
+
+export const getProductsByStore = (store: string, limit: number = 50, excludeOutOfStock: boolean = false): readonly StoredItem[] => 
+  queryProductsByStore(db, store, limit, excludeOutOfStock);
+
+export const getProductStats = (): ProductStats => 
+  queryProductStats(db);
+
+export const getPriceHistory = (itemId: number): readonly PricePoint[] => 
+  queryPriceHistory(db, itemId);
+
+export const getScrapeOffers = (scrapeId: number): readonly Offer[] => 
+  queryScrapeOffers(db, scrapeId);
+
+export const getLatestOffers = (): readonly Offer[] => 
+  queryLatestOffers(db);
+
+export const getChipsetPriceHistory = (since: string): readonly ChipsetPricePoint[] => 
+  queryChipsetPriceHistory(db, since);
+
+export const getPriceRecords = (filters: ExportFilters, afterId: number, limit: number): readonly PriceRecord[] => 
+  queryPriceRecords(db, filters, afterId, limit);
+
+export const getWatches = (): readonly Watch[] => 
+  queryWatches(db);
+
+export const getWatch = (watchId: number): Watch | undefined => 
+  queryWatch(db, watchId);
+
+export const createWatch = (watch: WatchInput): Watch => {
+  const watchId = insertWatch(db, watch);
+  return queryWatch(db, watchId) as Watch;
+};
+
+export const saveWatch = (watchId: number, watch: WatchInput): Watch | undefined => {
+  updateWatch(db, watchId, watch);
+  return queryWatch(db, watchId);
+};
+
+export const deleteWatch = (watchId: number): boolean => 
+  removeWatch(db, watchId);
+
+export const hasWatchAlert = (watchId: number, itemId: number, price: number): boolean => 
+  findWatchAlert(db, watchId, itemId, price);
+
+export const recordWatchAlert = (watchId: number, itemId: number, scrapeId: number, price: number): void => 
+  insertWatchAlert(db, watchId, itemId, scrapeId, price);
+
+export const getSchedules = (): readonly Schedule[] => 
+  querySchedules(db);
+
+export const saveSchedules = (schedules: readonly ScheduleInput[]): readonly Schedule[] => {
+  replaceSchedules(db, schedules);
+  return querySchedules(db);
+};
+
+export const saveScheduleRun = (
+  scheduleId: number,
+  runState: Pick<Schedule, 'lastRunAt' | 'nextRunAt' | 'lastJobId'>
+): void => 
+  updateScheduleRun(db, scheduleId, runState);
+
+export const getStores = (): readonly StoreRecord[] => 
+  queryStoreRecords(db);
+
+export const getStore = (storeId: number): StoreRecord | undefined => 
+  queryStoreRecord(db, storeId);
+
+export const getStoreIdByName = (storeName: string): number | undefined => 
+  queryStoreIdByName(db, storeName);
+
+export const createStore = (store: StoreInput): StoreRecord => {
+  const storeId = insertStoreRecord(db, store);
+  return queryStoreRecord(db, storeId) as StoreRecord;
+};
+
+export const saveStore = (storeId: number, store: StoreInput): StoreRecord | undefined => {
+  updateStoreRecord(db, storeId, store);
+  return queryStoreRecord(db, storeId);
+};
+
+export const deleteStore = (storeId: number): boolean => 
+  removeStoreRecord(db, storeId);
+
+export const getSearchTerms = (): readonly SearchTerm[] => 
+  querySearchTerms(db);
+
+export const getSearchTerm = (searchTermId: number): SearchTerm | undefined => 
+  querySearchTerm(db, searchTermId);
+
+export const createSearchTerm = (searchTerm: SearchTermInput): SearchTerm => {
+  const searchTermId = insertSearchTerm(db, searchTerm);
+  return querySearchTerm(db, searchTermId) as SearchTerm;
+};
+
+export const saveSearchTerm = (searchTermId: number, searchTerm: SearchTermInput): SearchTerm | undefined => {
+  updateSearchTerm(db, searchTermId, searchTerm);
+  return querySearchTerm(db, searchTermId);
+};
+
+export const deleteSearchTerm = (searchTermId: number): boolean => 
+  removeSearchTerm(db, searchTermId);
+
+export const getRunReports = (limit: number = 20): readonly RunReport[] => 
+  queryRunReports(db, limit);
+
+export const getRunReport = (id: number | string): RunReport | undefined => 
+  queryRunReport(db, id);
+
+export const saveRunReport = (report: RunReportInput): number => 
+  insertRunReport(db, report);
+
+export const getSearchHistory = (limit: number): readonly SearchHistoryEntry[] => 
+  querySearchHistory(db, limit);
+
+export const saveRunScrape = (runId: number, scrapeId: number): void => 
+  linkRunToScrape(db, runId, scrapeId);
+
+export const getRejectedListings = (filters: RejectionFilters = {}, limit: number = 100): readonly RejectedListing[] => 
+  queryRejectedListings(db, filters, limit);
 
-export const getProductsByCategory = (category: 'GPU' | 'CPU', limit: number = 50): readonly Item[] => 
-  queryProductsByCategory(db, category, limit);
+export const saveRejectedListings = (runId: number, listings: readonly RejectedListingInput[]): void => 
+  insertRejectedListings(db, runId, listings);
 
-export const getProductsByStore = (store: string, limit: number = 50): readonly Item[] => 
-  queryProductsByStore(db, store, limit);
+export const getRunInsights = (runId: number): RunInsights | undefined => 
+  queryRunInsights(db, runId);
 
-export const getProductStats = (): { readonly total: number; readonly gpu: number; readonly cpu: number; readonly stores: readonly string[] } => 
-  queryProductStats(db); 
\ No newline at end of file
+export const saveRunInsights = (insights: Omit<RunInsights, 'createdAt'>): void => 
+  upsertRunInsights(db, insights);
@@ -0,0 +1,171 @@
+import ExcelJS from 'exceljs';
+import { once } from 'events';
+import { Writable } from 'stream';
+import { getPriceRecords } from './database.js';
+import { CATEGORIES, isCategory } from './config/categories.js';
+import { ExportFilters, ExportFormat, PriceRecord } from './types.js';
+
+const EXPORT_FORMATS: Readonly<Record<ExportFormat, { readonly contentType: string; readonly extension: string }>> = {
+  csv: { contentType: "text/csv; charset=utf-8", extension: "csv" },
+  ndjson: { contentType: "application/x-ndjson", extension: "ndjson" },
+  xlsx: { contentType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet", extension: "xlsx" },
+};
+
+const BATCH_SIZE = 1000;
+
+const COLUMNS: readonly (keyof PriceRecord)[] = [
+  "timestamp",
+  "scrapeId",
+  "store",
+  "category",
+  "name",
+  "price",
+  "availability",
+  "deliveryEstimate",
+  "seller",
+  "isMarketplace",
+  "url",
+] as const;
+
+const isExportFormat = (value: unknown): value is ExportFormat =>
+  typeof value === "string" && Object.keys(EXPORT_FORMATS).includes(value);
+
+async function* readPriceRecords(filters: ExportFilters): AsyncGenerator<readonly PriceRecord[]> {
+  let afterId = 0;
+
+  while (true) {
+    const records = getPriceRecords(filters, afterId, BATCH_SIZE);
+    if (records.length === 0) return;
+
+    yield records;
+    afterId = records[records.length - 1]?.id ?? afterId;
+  }
+}
+
+// A client that disconnects mid-download closes the response without ever draining it,
+// so close is awaited as well and ends the export instead of leaving it waiting forever
+const writeChunk = async (output: Writable, chunk: string): Promise<void> => {
+  if (output.destroyed) {
+    throw new Error("Export output closed before the export finished");
+  }
+  if (output.write(chunk)) return;
+
+  const controller = new AbortController();
+  try {
+    const event = await Promise.race([
+      once(output, "drain", { signal: controller.signal }).then(() => "drain"),
+      once(output, "close", { signal: controller.signal }).then(() => "close"),
+    ]);
+    if (event === "close") {
+      throw new Error("Export output closed before the export finished");
+    }
+  } finally {
+    // Removes the listener that lost the race
+    controller.abort();
+  }
+};
+
+const toCsvValue = (value: unknown): string => {
+  const text = value === null || value === undefined ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const writeCsv = async (filters: ExportFilters, output: Writable): Promise<void> => {
+  await writeChunk(output, `${COLUMNS.join(",")}\r\n`);
+
+  for await (const records of readPriceRecords(filters)) {
+    await writeChunk(
+      output,
+      records.map((record) => `${COLUMNS.map((column) => toCsvValue(record[column])).join(",")}\r\n`).join("")
+    );
+  }
+};
+
+const writeNdjson = async (filters: ExportFilters, output: Writable): Promise<void> => {
+  for await (const records of readPriceRecords(filters)) {
+    await writeChunk(output, records.map((record) => `${JSON.stringify(record)}\n`).join(""));
+  }
+};
+
+// The streaming writer flushes committed rows instead of building the whole workbook in memory
+const writeXlsx = async (filters: ExportFilters, output: Writable): Promise<void> => {
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: output });
+  const worksheet = workbook.addWorksheet("Prices");
+  worksheet.columns = COLUMNS.map((column) => ({ header: column, key: column }));
+
+  for await (const records of readPriceRecords(filters)) {
+    records.forEach((record) => worksheet.addRow({ ...record }).commit());
+  }
+
+  worksheet.commit();
+  await workbook.commit();
+};
+
+// Leaves the output open for csv/ndjson; the xlsx writer ends it when the workbook is committed
+const writeExport = (format: ExportFormat, filters: ExportFilters, output: Writable): Promise<void> => {
+  switch (format) {
+    case "csv":
+      return writeCsv(filters, output);
+    case "ndjson":
+      return writeNdjson(filters, output);
+    case "xlsx":
+      return writeXlsx(filters, output);
+  }
+};
+
+// Date-only bounds cover whole days, so ?to=2025-07-31 includes the 31st
+const parseDateBound = (value: unknown, endOfRange: boolean): string | null | undefined => {
+  if (value === undefined) return undefined;
+  if (typeof value !== "string" || Number.isNaN(Date.parse(value))) return null;
+
+  const date = new Date(value);
+  if (endOfRange && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    date.setUTCDate(date.getUTCDate() + 1);
+  }
+  return date.toISOString();
+};
+
+const parseExportQuery = (query: any): { readonly format: ExportFormat; readonly filters: ExportFilters } | string => {
+  const format = query?.format ?? "csv";
+  if (!isExportFormat(format)) {
+    return `Invalid format. Must be one of ${Object.keys(EXPORT_FORMATS).join(", ")}`;
+  }
+
+  // Repeated parameters arrive as arrays; filtering on only one of them would export more than asked
+  const repeated = ["category", "store"].find((name) => query[name] !== undefined && typeof query[name] !== "string");
+  if (repeated) {
+    return `${repeated} takes a single value`;
+  }
+
+  const category = typeof query.category === "string" ? query.category.toUpperCase() : undefined;
+  if (category !== undefined && !isCategory(category)) {
+    return `Invalid category. Must be one of ${CATEGORIES.map((c) => c.id).join(", ")}`;
+  }
+
+  const from = parseDateBound(query.from, false);
+  const to = parseDateBound(query.to, true);
+  if (from === null || to === null) {
+    return "from and to must be ISO dates, e.g. 2025-07-01";
+  }
+
+  return {
+    format,
+    filters: {
+      ...(category ? { category } : {}),
+      ...(typeof query.store === "string" && query.store ? { store: query.store } : {}),
+      ...(from ? { from } : {}),
+      ...(to ? { to } : {}),
+    },
+  };
+};
+
+const getExportFilename = (format: ExportFormat): string =>
+  `electronics_export_${new Date().toISOString().replace(/[:.]/g, "-")}.${EXPORT_FORMATS[format].extension}`;
+
+export {
+  EXPORT_FORMATS,
+  isExportFormat,
+  writeExport,
+  parseExportQuery,
+  getExportFilename
+};
@@ -0,0 +1,56 @@
+import fs from 'fs/promises';
+import path from 'path';
+
+// SCRAPE_MODE=record saves every fetched search page, SCRAPE_MODE=replay serves them instead of the network
+type ScrapeMode = "live" | "record" | "replay";
+
+const getScrapeMode = (): ScrapeMode => {
+  const mode = process.env.SCRAPE_MODE?.toLowerCase();
+  return mode === "record" || mode === "replay" ? mode : "live";
+};
+
+const getFixtureDir = (): string => process.env.SCRAPE_FIXTURE_DIR ?? "./fixtures/pages";
+
+const slugify = (text: string): string =>
+  text.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+
+// fixtures/pages/coolblue/amd-radeon-7900xt.html, then .p2.html, .p3.html for later pages
+const getFixturePath = (storeName: string, searchTerm: string, page: number): string =>
+  path.join(
+    getFixtureDir(),
+    slugify(storeName),
+    `${slugify(searchTerm)}${page > 1 ? `.p${page}` : ""}.html`
+  );
+
+const isReplaying = (): boolean => getScrapeMode() === "replay";
+
+const recordPage = async (storeName: string, searchTerm: string, page: number, html: string): Promise<void> => {
+  if (getScrapeMode() !== "record") return;
+
+  const fixturePath = getFixturePath(storeName, searchTerm, page);
+  await fs.mkdir(path.dirname(fixturePath), { recursive: true });
+  await fs.writeFile(fixturePath, html);
+  console.log(`📼 Recorded ${fixturePath}`);
+};
+
+// Only the first page is required; a missing later page simply ends the listing
+const replayPage = async (storeName: string, searchTerm: string, page: number): Promise<string> => {
+  const fixturePath = getFixturePath(storeName, searchTerm, page);
+
+  try {
+    const html = await fs.readFile(fixturePath, "utf-8");
+    console.log(`📼 Replaying ${fixturePath}`);
+    return html;
+  } catch {
+    if (page > 1) return "<html><body></body></html>";
+    throw new Error(`No recorded page for ${storeName} "${searchTerm}" at ${fixturePath}`);
+  }
+};
+
+export {
+  getScrapeMode,
+  getFixturePath,
+  isReplaying,
+  recordPage,
+  replayPage
+};
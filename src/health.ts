@@ -0,0 +1,137 @@
+import { getSearchHistory } from './database.js';
+import { getActiveSearchTerms, getActiveStores } from './targets.js';
+import { median } from './pricing.js';
+import { Anomaly, AnomalyType, HealthStatus, SearchHealth, SearchReport, StoreHealth } from './types.js';
+
+// How many earlier runs of a store/search term pair make up its baseline
+const BASELINE_RUNS = 5;
+// A count at or below this share of the baseline counts as a sudden drop (80% or more)
+const DROP_RATIO = 0.2;
+// A median price outside this band around the baseline usually means the wrong listings were parsed
+const PRICE_SHIFT_RATIO = 2;
+
+// These mean the page no longer yields usable listings; the others only look suspicious
+const BREAKING_ANOMALIES: readonly AnomalyType[] = ["failed", "zero_results", "invalid_prices"];
+
+interface Baseline {
+  readonly productCount: number;
+  readonly medianPrice: number | null;
+}
+
+// Failed runs say nothing about what the page normally returns
+const getBaseline = (history: readonly SearchReport[]): Baseline | null => {
+  const previous = history.filter((search) => search.status !== "failed");
+  if (previous.length === 0) return null;
+
+  return {
+    productCount: median(previous.map((search) => search.productCount)) ?? 0,
+    medianPrice: median(
+      previous.map((search) => search.medianPrice).filter((price): price is number => price !== null)
+    ),
+  };
+};
+
+const findAnomalies = (search: SearchReport, baseline: Baseline | null): readonly Anomaly[] => {
+  if (search.status === "failed") {
+    return [{ type: "failed", message: `${search.errorType ?? "other"}: ${search.error ?? "unknown error"}` }];
+  }
+
+  const anomalies: Anomaly[] = [];
+  const usual = baseline ? `, usually ${Math.round(baseline.productCount)}` : "";
+
+  if (search.productCount === 0 && (!baseline || baseline.productCount > 0)) {
+    anomalies.push({ type: "zero_results", message: `No products found${usual}` });
+  }
+
+  if (baseline && search.productCount > 0 && search.productCount <= baseline.productCount * DROP_RATIO) {
+    const drop = Math.round((1 - search.productCount / baseline.productCount) * 100);
+    anomalies.push({ type: "count_drop", message: `${search.productCount} products, ${drop}% fewer than usual` });
+  }
+
+  if (search.productCount > 0 && search.invalidPrices === search.productCount) {
+    anomalies.push({ type: "invalid_prices", message: `None of the ${search.productCount} products has a price` });
+  }
+
+  if (baseline?.medianPrice && search.medianPrice) {
+    const ratio = search.medianPrice / baseline.medianPrice;
+    if (ratio >= PRICE_SHIFT_RATIO || ratio <= 1 / PRICE_SHIFT_RATIO) {
+      anomalies.push({
+        type: "price_shift",
+        message: `Median price €${search.medianPrice.toFixed(2)}, usually €${baseline.medianPrice.toFixed(2)}`,
+      });
+    }
+  }
+
+  return anomalies;
+};
+
+const getSearchStatus = (anomalies: readonly Anomaly[]): HealthStatus =>
+  anomalies.some((anomaly) => BREAKING_ANOMALIES.includes(anomaly.type))
+    ? "broken"
+    : anomalies.length > 0 ? "degraded" : "healthy";
+
+const assessSearch = (search: SearchReport, history: readonly SearchReport[]): SearchHealth => {
+  const baseline = getBaseline(history);
+  const anomalies = findAnomalies(search, baseline);
+
+  return {
+    store: search.store,
+    searchTerm: search.searchTerm,
+    status: getSearchStatus(anomalies),
+    productCount: search.productCount,
+    medianPrice: search.medianPrice,
+    baselineProductCount: baseline?.productCount ?? null,
+    baselineMedianPrice: baseline?.medianPrice ?? null,
+    anomalies,
+  };
+};
+
+const isSameSearch = (a: SearchReport, b: SearchReport): boolean =>
+  a.store === b.store && a.searchTerm === b.searchTerm;
+
+// Compares a run that has not been saved yet with the runs before it
+const assessSearches = (searches: readonly SearchReport[]): readonly SearchHealth[] => {
+  const history = getSearchHistory(BASELINE_RUNS);
+  return searches.map((search) => assessSearch(search, history.filter((entry) => isSameSearch(entry, search))));
+};
+
+// A store is broken when every search is, so one bad term only degrades it
+const getStoreStatus = (searches: readonly SearchHealth[]): HealthStatus => {
+  if (searches.length === 0) return "unknown";
+  if (searches.every((search) => search.status === "broken")) return "broken";
+  return searches.every((search) => search.status === "healthy") ? "healthy" : "degraded";
+};
+
+// Judges the latest run of every active store/search term pair against the runs before it
+const getStoreHealth = (): readonly StoreHealth[] => {
+  const searchTerms = getActiveSearchTerms();
+  const history = getSearchHistory(BASELINE_RUNS + 1).filter((entry) => searchTerms.includes(entry.searchTerm));
+
+  return getActiveStores().map((store) => {
+    // History is sorted newest first within each pair
+    const latest = history.filter(
+      (entry, index) => entry.store === store.name && !history.slice(0, index).some((other) => isSameSearch(other, entry))
+    );
+    const searches = latest.map((search) =>
+      assessSearch(search, history.filter((entry) => isSameSearch(entry, search) && entry.runId < search.runId))
+    );
+
+    return {
+      store: store.name,
+      status: getStoreStatus(searches),
+      checkedAt: latest.map((entry) => entry.finishedAt).sort().pop() ?? null,
+      searches,
+    };
+  });
+};
+
+const formatSearchHealth = (search: SearchHealth): string =>
+  `${search.status === "broken" ? "🔴" : "🟡"} ${search.store} "${search.searchTerm}": ${search.anomalies
+    .map((anomaly) => anomaly.message)
+    .join("; ")}`;
+
+export {
+  assessSearches,
+  getStoreHealth,
+  formatSearchHealth
+};
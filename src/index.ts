@@ -1,38 +1,91 @@
-import { saveProducts } from './database.js';
+import {
+  getChipsetPriceHistory,
+  saveProducts,
+  saveRejectedListings,
+  saveRunInsights,
+  saveRunReport,
+  saveRunScrape
+} from './database.js';
 import { scrapeAllStores } from './scraping.js';
-import { STORES, SEARCH_TERMS } from './config/stores.js';
+import { Store } from './config/stores.js';
+import { getActiveSearchTerms, getActiveStores } from './targets.js';
 import { AIStorageAgent } from './agents/ai-storage-agent.js';
-import { ScrapingResult } from './types.js';
+import { evaluateWatches } from './watchlist.js';
+import { compareByChipset, formatComparison, isAvailable } from './comparison.js';
+import { CATEGORIES } from './config/categories.js';
+import { formatSearchReport, getRunStatus } from './reports.js';
+import { assessSearches, formatSearchHealth } from './health.js';
+import { Availability, Item, RunOptions, RunProgress, RunReportInput, RunSummary, ScrapingResult } from './types.js';
 import fs from 'fs/promises';
 
+const AVAILABILITY_LABELS: Readonly<Record<Availability, string>> = {
+  in_stock: 'in stock',
+  backorder: 'backorder',
+  out_of_stock: 'out of stock',
+  unknown: 'availability unknown'
+};
+
+const formatAvailability = (product: Item): string => {
+  const label = AVAILABILITY_LABELS[product.availability ?? 'unknown'];
+  return product.deliveryEstimate ? `${label} - ${product.deliveryEstimate}` : label;
+};
+
+const printProduct = (product: Item): void => {
+  console.log(`${product.name}`);
+  console.log(`  💰 ${product.price} | 🏪 ${product.store}${product.isMarketplace ? ` (via ${product.seller})` : ''} | 📦 ${formatAvailability(product)}`);
+  console.log(`  🔗 ${product.url}\n`);
+};
+
 const formatResults = (result: ScrapingResult): void => {
   const { products, errors } = result;
 
   console.log("\n=== SCRAPING RESULTS ===\n");
 
-  const gpus = products.filter((p) => p.category === "GPU");
-  const cpus = products.filter((p) => p.category === "CPU");
+  const groups = CATEGORIES.map((category) => ({
+    category,
+    products: products.filter((p) => p.category === category.id),
+  }));
+
+  console.log(`📊 Found ${products.length} products total${result.pageCount ? ` across ${result.pageCount} result pages` : ''}`);
+  groups.forEach(({ category, products }) =>
+    console.log(`${category.icon} ${category.label}: ${products.length}`)
+  );
+  console.log();
+
+  groups
+    .filter(({ products }) => products.length > 0)
+    .forEach(({ category, products }) => {
+      console.log(`=== ${category.label} ===`);
+      products.forEach(printProduct);
+    });
 
-  console.log(`📊 Found ${products.length} products total`);
-  console.log(`🎮 GPUs: ${gpus.length}`);
-  console.log(`🖥️  CPUs: ${cpus.length}\n`);
+  // Out-of-stock offers never win the comparison
+  const comparisons = compareByChipset(products.filter(isAvailable));
+  if (comparisons.length > 0) {
+    console.log("=== PRICE COMPARISON ===");
+    comparisons.forEach((comparison) => console.log(`${formatComparison(comparison)}\n`));
+  }
 
-  if (gpus.length > 0) {
-    console.log("=== GPUs ===");
-    gpus.forEach((gpu) => {
-      console.log(`${gpu.name}`);
-      console.log(`  💰 ${gpu.price} | 🏪 ${gpu.store}`);
-      console.log(`  🔗 ${gpu.url}\n`);
-    });
+  if (result.searches && result.searches.length > 0) {
+    console.log("=== RUN REPORT ===");
+    result.searches.forEach((search) => console.log(formatSearchReport(search)));
+    console.log();
+
+    const unhealthy = assessSearches(result.searches).filter((search) => search.status !== "healthy");
+    console.log("=== SCRAPER HEALTH ===");
+    if (unhealthy.length === 0) {
+      console.log("✅ All searches look normal compared with recent runs");
+    }
+    unhealthy.forEach((search) => console.log(formatSearchHealth(search)));
+    console.log();
   }
 
-  if (cpus.length > 0) {
-    console.log("=== CPUs ===");
-    cpus.forEach((cpu) => {
-      console.log(`${cpu.name}`);
-      console.log(`  💰 ${cpu.price} | 🏪 ${cpu.store}`);
-      console.log(`  🔗 ${cpu.url}\n`);
-    });
+  if (result.rejected && result.rejected.length > 0) {
+    console.log("=== REJECTED LISTINGS ===");
+    result.rejected.forEach((listing) =>
+      console.log(`🚫 ${listing.name} (${listing.store}, €${listing.price}): ${listing.reason} - ${listing.detail}`)
+    );
+    console.log();
   }
 
   if (errors.length > 0) {
@@ -46,51 +99,145 @@ const createEnrichedData = (result: ScrapingResult) => ({
   metadata: {
     timestamp: new Date().toISOString(),
     totalProducts: result.products.length,
-    gpuCount: result.products.filter(p => p.category === 'GPU').length,
-    cpuCount: result.products.filter(p => p.category === 'CPU').length,
+    categoryCounts: Object.fromEntries(
+      CATEGORIES.map(category => [category.id, result.products.filter(p => p.category === category.id).length])
+    ),
     stores: [...new Set(result.products.map(p => p.store))],
   }
 });
 
-const generateFilename = (): string => 
-  `electronics_scrape_${new Date().toISOString().split('T')[0]}.json`;
+// The scrape id keeps same-day runs from overwriting each other's file
+const generateFilename = (scrapeId?: number): string => {
+  const [date, time = ''] = new Date().toISOString().split('T');
+  return scrapeId !== undefined
+    ? `electronics_scrape_${date}_${scrapeId}.json`
+    : `electronics_scrape_${date}_${time.replace(/[:.]/g, '-')}.json`;
+};
 
-const saveResults = async (result: ScrapingResult): Promise<void> => {
-  saveProducts(result.products);
-  
-  const filename = generateFilename();
+const writeResultsFile = async (result: ScrapingResult, filename: string = generateFilename()): Promise<string> => {
   const enrichedData = createEnrichedData(result);
   
   await fs.writeFile(filename, JSON.stringify(enrichedData, null, 2));
   console.log(`\n💾 Results saved to ${filename}`);
+  return filename;
+};
+
+const saveResults = async (result: ScrapingResult): Promise<number> => {
+  const scrapeId = saveProducts(result.products);
+  
+  await writeResultsFile(result, generateFilename(scrapeId));
+  return scrapeId;
 };
 
-const processResultsWithAI = async (result: ScrapingResult): Promise<void> => {
+const INSIGHT_HISTORY_DAYS = 90;
+
+const processResultsWithAI = async (
+  result: ScrapingResult,
+  searchTerms?: readonly string[],
+  runId?: number
+): Promise<number> => {
   const storageAgent = new AIStorageAgent();
   
-  const deduplicatedProducts = await storageAgent.deduplicateProducts(result.products);
+  const deduplicatedProducts = await storageAgent.deduplicateProducts(result.products, searchTerms);
   
   const deduplicatedResult = {
     products: deduplicatedProducts,
-    errors: result.errors
+    errors: result.errors,
+    pageCount: result.pageCount,
+    searches: result.searches,
+    rejected: result.rejected
   };
   
-  await saveResults(deduplicatedResult);
+  // Read before saving, so the history only holds earlier scrapes
+  const since = new Date(Date.now() - INSIGHT_HISTORY_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  const history = getChipsetPriceHistory(since);
+
+  const scrapeId = await saveResults(deduplicatedResult);
+
+  const analysis = await storageAgent.analyzeResults(deduplicatedResult, history);
+  if (runId !== undefined) {
+    saveRunInsights({
+      runId,
+      source: analysis.source ?? 'fallback',
+      model: analysis.model ?? null,
+      insights: analysis.insights ?? '',
+      recommendations: analysis.recommendations ?? []
+    });
+  }
   
-  await storageAgent.formatResults(deduplicatedResult);
+  await storageAgent.formatResults(deduplicatedResult, analysis);
+  return scrapeId;
 };
 
-const main = async (): Promise<void> => {
+const selectStores = (storeNames?: readonly string[]): readonly Store[] =>
+  getActiveStores(storeNames);
+
+const createRunReport = (result: ScrapingResult, startedAt: Date, jobId?: string): RunReportInput => {
+  const finishedAt = new Date();
+  const searches = result.searches ?? [];
+
+  return {
+    jobId: jobId ?? null,
+    status: getRunStatus(searches),
+    startedAt: startedAt.toISOString(),
+    finishedAt: finishedAt.toISOString(),
+    durationMs: finishedAt.getTime() - startedAt.getTime(),
+    productCount: result.products.length,
+    pageCount: result.pageCount ?? 0,
+    searches,
+  };
+};
+
+const main = async (
+  options: RunOptions = {},
+  onProgress?: (progress: RunProgress) => void,
+  jobId?: string
+): Promise<RunSummary> => {
   console.log('🚀 Starting Dutch electronics scraper...');
-  console.log('🎯 Searching for specified GPUs and CPUs with 3D cache...\n');
+  console.log(`🎯 Searching for ${CATEGORIES.map(c => c.label).join(', ')}...\n`);
+
+  const stores = selectStores(options.stores);
+  const searchTerms = options.searchTerms ?? getActiveSearchTerms();
 
-  const result = await scrapeAllStores(STORES, SEARCH_TERMS);
+  const startedAt = new Date();
+  const result = await scrapeAllStores(stores, searchTerms, onProgress, options.maxPages);
+  const report = createRunReport(result, startedAt, jobId);
   
   formatResults(result);
 
-  await processResultsWithAI(result);
+  if (options.dryRun) {
+    console.log('🧪 Dry run - nothing was saved');
+    return {
+      runId: null,
+      scrapeId: null,
+      status: report.status,
+      productCount: result.products.length,
+      pageCount: result.pageCount ?? 0,
+      errors: result.errors
+    };
+  }
+
+  // Saved before the products, so the report survives a failure while saving or deduplicating
+  const runId = saveRunReport(report);
+  saveRejectedListings(runId, result.rejected ?? []);
+
+  const scrapeId = options.skipAI
+    ? await saveResults(result)
+    : await processResultsWithAI(result, searchTerms, runId);
+  saveRunScrape(runId, scrapeId);
+
+  await evaluateWatches(scrapeId);
   
   console.log('✅ Scraping completed!');
+
+  return {
+    runId,
+    scrapeId,
+    status: report.status,
+    productCount: result.products.length,
+    pageCount: result.pageCount ?? 0,
+    errors: result.errors
+  };
 };
 
 if (import.meta.url === `file://${process.argv[1]}`) {
@@ -98,8 +245,11 @@ if (import.meta.url === `file://${process.argv[1]}`) {
 }
 
 export { 
+  printProduct,
   formatResults, 
+  writeResultsFile,
   saveResults, 
   processResultsWithAI,
+  selectStores,
   main 
 };
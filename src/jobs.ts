@@ -0,0 +1,129 @@
+import { randomUUID } from 'crypto';
+import { main } from './index.js';
+import { getActiveStores } from './targets.js';
+import { RunOptions, ScrapeJob } from './types.js';
+
+const MAX_QUEUED_JOBS = 5;
+const MAX_FINISHED_JOBS = 100;
+const MAX_PAGES_LIMIT = 20;
+
+const jobs = new Map<string, ScrapeJob>();
+const queue: string[] = [];
+let activeJobId: string | null = null;
+
+const updateJob = (jobId: string, changes: Partial<ScrapeJob>): void => {
+  const job = jobs.get(jobId);
+  if (job) {
+    jobs.set(jobId, { ...job, ...changes });
+  }
+};
+
+const pruneFinishedJobs = (): void => {
+  const finished = [...jobs.values()].filter(
+    (job) => job.state === "succeeded" || job.state === "failed"
+  );
+  finished
+    .slice(0, Math.max(0, finished.length - MAX_FINISHED_JOBS))
+    .forEach((job) => jobs.delete(job.id));
+};
+
+const runJob = async (jobId: string): Promise<void> => {
+  const job = jobs.get(jobId);
+  if (!job) return;
+
+  updateJob(jobId, { state: "running", startedAt: new Date().toISOString() });
+  console.log(`[${jobId}] 🚀 Starting scraping job...`);
+
+  try {
+    const result = await main(job.options, (progress) => updateJob(jobId, { progress }), jobId);
+    updateJob(jobId, { state: "succeeded", result, finishedAt: new Date().toISOString() });
+    console.log(`[${jobId}] ✅ Scraping completed successfully`);
+  } catch (error) {
+    updateJob(jobId, {
+      state: "failed",
+      error: error instanceof Error ? error.message : 'Unknown error',
+      finishedAt: new Date().toISOString()
+    });
+    console.error(`[${jobId}] ❌ Scraping failed:`, error);
+  }
+};
+
+// Jobs run one at a time; overlapping requests wait in the queue
+const processQueue = async (): Promise<void> => {
+  if (activeJobId) return;
+
+  const nextJobId = queue.shift();
+  if (!nextJobId) return;
+
+  activeJobId = nextJobId;
+  try {
+    await runJob(nextJobId);
+  } finally {
+    activeJobId = null;
+    pruneFinishedJobs();
+    void processQueue();
+  }
+};
+
+const enqueueRun = (options: RunOptions): ScrapeJob | null => {
+  if (queue.length >= MAX_QUEUED_JOBS) {
+    return null;
+  }
+
+  const job: ScrapeJob = {
+    id: randomUUID(),
+    state: "queued",
+    options,
+    progress: { completed: 0, total: 0 },
+    createdAt: new Date().toISOString()
+  };
+
+  jobs.set(job.id, job);
+  queue.push(job.id);
+  void processQueue();
+
+  return jobs.get(job.id) ?? job;
+};
+
+const getJob = (jobId: string): ScrapeJob | undefined => jobs.get(jobId);
+
+const isRunActive = (): boolean => activeJobId !== null || queue.length > 0;
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.length > 0 && value.every((entry) => typeof entry === "string" && !!entry.trim());
+
+const parseRunOptions = (body: any): RunOptions | string => {
+  const { stores, searchTerms, maxPages } = body ?? {};
+
+  if (stores !== undefined && !isStringArray(stores)) {
+    return "stores must be a non-empty array of store names";
+  }
+  if (searchTerms !== undefined && !isStringArray(searchTerms)) {
+    return "searchTerms must be a non-empty array of strings";
+  }
+
+  if (maxPages !== undefined && (!Number.isInteger(maxPages) || maxPages < 1 || maxPages > MAX_PAGES_LIMIT)) {
+    return `maxPages must be an integer between 1 and ${MAX_PAGES_LIMIT}`;
+  }
+
+  const activeStores = getActiveStores();
+  const unknownStores = (stores ?? []).filter(
+    (name: string) => !activeStores.some((store) => store.name.toLowerCase() === name.toLowerCase())
+  );
+  if (unknownStores.length > 0) {
+    return `Unknown or disabled store(s): ${unknownStores.join(', ')}`;
+  }
+
+  return {
+    ...(stores ? { stores } : {}),
+    ...(searchTerms ? { searchTerms: searchTerms.map((term: string) => term.trim()) } : {}),
+    ...(maxPages ? { maxPages } : {})
+  };
+};
+
+export {
+  enqueueRun,
+  getJob,
+  isRunActive,
+  parseRunOptions
+};
@@ -0,0 +1,180 @@
+import { CanonicalModel, Item } from './types.js';
+
+interface ChipsetPattern {
+  readonly pattern: RegExp;
+  readonly manufacturer: string;
+  readonly format: (match: RegExpMatchArray) => string;
+}
+
+const upper = (value: string | undefined): string => (value ? ` ${value.toUpperCase()}` : "");
+
+const titleCase = (value: string | undefined): string =>
+  value
+    ? ` ${value
+        .split(/\s+/)
+        .map((word) => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
+        .join(" ")}`
+    : "";
+
+// Suffix alternatives are ordered longest first so "7900XTX" never reads as "7900 XT"
+const GPU_PATTERNS: readonly ChipsetPattern[] = [
+  {
+    pattern: /\bradeon\s+pro\s+(w\s*x?\s*\d{4}|vii)(?![a-z0-9])/i,
+    manufacturer: "AMD",
+    format: (match) => `Radeon Pro ${(match[1] ?? "").replace(/\s+/g, "").toUpperCase()}`,
+  },
+  {
+    pattern: /\b(?:rx|radeon(?:\s+rx)?)\s*(\d{4})\s*(xtx|xt|gre)?(?![a-z0-9])/i,
+    manufacturer: "AMD",
+    format: (match) => `RX ${match[1]}${upper(match[2])}`,
+  },
+  {
+    pattern: /\b(rtx|gtx|geforce(?:\s+(?:rtx|gtx))?)\s*(\d{4})\s*(ti\s*super|ti|super)?(?![a-z0-9])/i,
+    manufacturer: "NVIDIA",
+    format: (match) =>
+      `${/gtx/i.test(match[1] ?? "") ? "GTX" : "RTX"} ${match[2]}${titleCase(match[3]?.replace(/\s+/g, " "))}`,
+  },
+  {
+    pattern: /\barc\s*([ab]\d{3})(?![a-z0-9])/i,
+    manufacturer: "Intel",
+    format: (match) => `Arc ${(match[1] ?? "").toUpperCase()}`,
+  },
+] as const;
+
+const CPU_PATTERNS: readonly ChipsetPattern[] = [
+  {
+    pattern: /\bryzen\s*(\d)\s*(?:pro\s*)?(\d{4,5})\s*(x3d|xt|x|g|f)?(?![a-z0-9])/i,
+    manufacturer: "AMD",
+    format: (match) => `Ryzen ${match[1]} ${match[2]}${(match[3] ?? "").toUpperCase()}`,
+  },
+  {
+    pattern: /\bcore\s*(?:ultra\s*(\d)|(i\d))[\s-]*(\d{3,5})\s*([a-z]{0,2})(?![a-z0-9])/i,
+    manufacturer: "Intel",
+    format: (match) =>
+      `Core ${match[1] ? `Ultra ${match[1]}` : (match[2] ?? "").toLowerCase()} ${match[3]}${(match[4] ?? "").toUpperCase()}`,
+  },
+] as const;
+
+// Only categories built around a chipset can be mapped to a canonical model
+const CHIPSET_PATTERNS: Partial<Record<Item["category"], readonly ChipsetPattern[]>> = {
+  GPU: GPU_PATTERNS,
+  CPU: CPU_PATTERNS,
+};
+
+const BRANDS: readonly string[] = [
+  "ASUS",
+  "MSI",
+  "Gigabyte",
+  "XFX",
+  "Sapphire",
+  "PowerColor",
+  "ASRock",
+  "Zotac",
+  "Palit",
+  "Gainward",
+  "PNY",
+  "Inno3D",
+  "KFA2",
+  "Galax",
+  "Sparkle",
+  "Acer",
+  "Biostar",
+] as const;
+
+const NOISE_WORDS: ReadonlySet<string> = new Set([
+  "amd", "nvidia", "intel", "radeon", "geforce", "rtx", "gtx", "rx", "ryzen", "core",
+  "gaming", "edition", "videokaart", "grafische", "kaart", "graphics", "card", "grafikkarte",
+  "gddr5", "gddr6", "gddr6x", "gddr7", "hdmi", "dp", "3xdp", "2xdp", "displayport", "pcie",
+  "processor", "processors", "cpu", "boxed", "box", "tray", "mpk", "wof", "and", "met", "with",
+]);
+
+const MEMORY_PATTERN = /(?<![a-z0-9])(\d{1,2})\s*g(?:b)?(?![a-z0-9])/i;
+
+// Memory in part numbers such as "TUF-RTX5070TI-O16G-GAMING", where a leading O marks the OC edition
+const PART_NUMBER_MEMORY_PATTERN = /^(o)?(\d{1,2})g(?:b)?$/i;
+
+// Drops shop suffixes like " - Videokaart" and spec lists after the first comma or bracket
+const getTitle = (name: string): string =>
+  (name.split(/\s+[-–]\s+|[,(]/)[0] ?? name).replace(/[_/]/g, " ").trim();
+
+const findChipset = (
+  title: string,
+  category: Item["category"]
+): { readonly chipset: string; readonly manufacturer: string; readonly match: string } | null => {
+  const patterns = CHIPSET_PATTERNS[category] ?? [];
+
+  for (const { pattern, manufacturer, format } of patterns) {
+    const match = title.match(pattern);
+    if (match) {
+      return { chipset: format(match), manufacturer, match: match[0] };
+    }
+  }
+  return null;
+};
+
+const findBrand = (title: string): string | undefined =>
+  BRANDS.find((brand) => new RegExp(`\\b${brand}\\b`, "i").test(title));
+
+const normalizeKeyPart = (value: string | number | null): string =>
+  value === null ? "" : String(value).toLowerCase().replace(/\s+/g, "");
+
+// Memory is left out of the key: most shops only mention it for some listings of the same card
+const createCanonicalKey = (model: Omit<CanonicalModel, "key">, variantWords: readonly string[]): string =>
+  [
+    model.category,
+    normalizeKeyPart(model.chipset),
+    normalizeKeyPart(model.brand),
+    [...variantWords].sort().join("+"),
+  ].join("|");
+
+// Maps a listing such as "XFX Speedster MERC310 RX 7900 XTX 24GB" to its chipset,
+// board partner, variant and memory size; returns null when no known chipset is found
+const normalizeProduct = (name: string, category: Item["category"]): CanonicalModel | null => {
+  const title = getTitle(name);
+  const chipset = findChipset(title, category);
+  if (!chipset) {
+    return null;
+  }
+
+  const brand = findBrand(title) ?? chipset.manufacturer;
+  const remainder = title.replace(chipset.match, " ");
+  const memoryMatch = category === "GPU" ? remainder.match(MEMORY_PATTERN) : null;
+
+  // Hyphens separate the parts of SKU-style titles; tokens without letters or digits are separators
+  const tokens = remainder
+    .replace(memoryMatch?.[0] ?? "", " ")
+    .split(/[\s-]+/)
+    .filter((token) => /[a-z0-9]/i.test(token));
+  const partNumberMemory = category === "GPU" && !memoryMatch
+    ? tokens.map((token) => token.match(PART_NUMBER_MEMORY_PATTERN)).find((match) => !!match) ?? null
+    : null;
+  const chipsetWords = new Set(chipset.chipset.toLowerCase().split(/\s+/));
+
+  const variantWords = tokens
+    .flatMap((token) => (token === partNumberMemory?.[0] ? (partNumberMemory[1] ? ["OC"] : []) : [token]))
+    .filter((word) => word.toLowerCase() !== brand.toLowerCase())
+    .filter((word) => !chipsetWords.has(word.toLowerCase()))
+    .filter((word) => !NOISE_WORDS.has(word.toLowerCase()))
+    .filter((word, index, words) => words.findIndex((other) => other.toLowerCase() === word.toLowerCase()) === index);
+
+  const memory = memoryMatch?.[1] ?? partNumberMemory?.[2];
+  const model = {
+    category,
+    chipset: chipset.chipset,
+    brand,
+    variant: variantWords.length > 0 ? variantWords.join(" ") : null,
+    memoryGb: memory ? parseInt(memory, 10) : null,
+  };
+
+  return {
+    ...model,
+    key: createCanonicalKey(model, variantWords.map((word) => word.toLowerCase())),
+  };
+};
+
+export {
+  getTitle,
+  findChipset,
+  findBrand,
+  normalizeProduct
+};
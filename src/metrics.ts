@@ -0,0 +1,105 @@
+import { collectDefaultMetrics, Counter, Gauge, Histogram, Registry } from 'prom-client';
+import { RunStatus } from './types.js';
+
+const registry = new Registry();
+collectDefaultMetrics({ register: registry });
+
+const runsTotal = new Counter({
+  name: "scraper_runs_total",
+  help: "Scrape runs by outcome (success, partial when some searches failed, failed when all did)",
+  labelNames: ["outcome"] as const,
+  registers: [registry],
+});
+
+const runDuration = new Histogram({
+  name: "scraper_run_duration_seconds",
+  help: "Wall time of scrapeAllStores",
+  buckets: [30, 60, 120, 300, 600, 1200, 1800, 3600],
+  registers: [registry],
+});
+
+const storeRequests = new Counter({
+  name: "scraper_store_requests_total",
+  help: "Page requests sent to each store, by HTTP status or error",
+  labelNames: ["store", "status"] as const,
+  registers: [registry],
+});
+
+const storeFailures = new Counter({
+  name: "scraper_store_failures_total",
+  help: "Store searches that failed after retries, by error type",
+  labelNames: ["store", "type"] as const,
+  registers: [registry],
+});
+
+const productsExtracted = new Counter({
+  name: "scraper_products_extracted_total",
+  help: "Products extracted from search results, per store",
+  labelNames: ["store"] as const,
+  registers: [registry],
+});
+
+const lastSuccess = new Gauge({
+  name: "scraper_store_last_success_timestamp_seconds",
+  help: "Unix time of the last store search that finished without an error",
+  labelNames: ["store"] as const,
+  registers: [registry],
+});
+
+const openaiDuration = new Histogram({
+  name: "scraper_openai_request_duration_seconds",
+  help: "Latency of OpenAI calls",
+  labelNames: ["method", "outcome"] as const,
+  buckets: [0.5, 1, 2, 5, 10, 20, 40, 80],
+  registers: [registry],
+});
+
+const openaiTokens = new Counter({
+  name: "scraper_openai_tokens_total",
+  help: "Tokens used by OpenAI calls, by direction (prompt or completion)",
+  labelNames: ["method", "type"] as const,
+  registers: [registry],
+});
+
+const recordRun = (durationMs: number, outcome: RunStatus): void => {
+  runsTotal.inc({ outcome });
+  runDuration.observe(durationMs / 1000);
+};
+
+const recordStoreRequest = (store: string, status: number | string): void => {
+  storeRequests.inc({ store, status: String(status) });
+};
+
+const recordStoreSuccess = (store: string, productCount: number): void => {
+  productsExtracted.inc({ store }, productCount);
+  lastSuccess.setToCurrentTime({ store });
+};
+
+const recordStoreFailure = (store: string, type: string): void => {
+  storeFailures.inc({ store, type });
+};
+
+const recordOpenAICall = (
+  method: string,
+  durationMs: number,
+  outcome: "success" | "error",
+  usage?: { readonly prompt_tokens?: number; readonly completion_tokens?: number } | null
+): void => {
+  openaiDuration.observe({ method, outcome }, durationMs / 1000);
+  openaiTokens.inc({ method, type: "prompt" }, usage?.prompt_tokens ?? 0);
+  openaiTokens.inc({ method, type: "completion" }, usage?.completion_tokens ?? 0);
+};
+
+const getMetrics = (): Promise<string> => registry.metrics();
+
+const METRICS_CONTENT_TYPE = registry.contentType;
+
+export {
+  METRICS_CONTENT_TYPE,
+  recordRun,
+  recordStoreRequest,
+  recordStoreSuccess,
+  recordStoreFailure,
+  recordOpenAICall,
+  getMetrics
+};
@@ -0,0 +1,4 @@
+// Importing the database module applies any pending migrations to DB_PATH
+import { getSchemaVersion } from './database.js';
+
+console.log(`✅ Database schema is at version ${getSchemaVersion()}`);
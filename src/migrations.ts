@@ -0,0 +1,437 @@
+import Database from 'better-sqlite3';
+
+type DatabaseConnection = Database.Database;
+
+interface Migration {
+  readonly version: number;
+  readonly name: string;
+  readonly up: (db: DatabaseConnection) => void;
+}
+
+const hasColumn = (db: DatabaseConnection, table: string, column: string): boolean =>
+  (db.prepare(`SELECT name FROM pragma_table_info(?)`).all(table) as { name: string }[])
+    .some((row) => row.name === column);
+
+const getTableSql = (db: DatabaseConnection, table: string): string =>
+  (db.prepare(`SELECT sql FROM sqlite_master WHERE type = 'table' AND name = ?`).get(table) as { sql: string } | undefined)?.sql ?? "";
+
+// Databases created from the old init.sql already have some of these tables or columns,
+// so every step only creates what is missing
+const MIGRATIONS: readonly Migration[] = [
+  {
+    version: 1,
+    name: "initial_schema",
+    up: (db) => db.exec(`
+      CREATE TABLE IF NOT EXISTS scrape (
+          id INTEGER PRIMARY KEY,
+          timestamp TEXT NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS store (
+          id INTEGER PRIMARY KEY,
+          name TEXT NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS item (
+          id INTEGER PRIMARY KEY,
+          price REAL NOT NULL,
+          name TEXT NOT NULL,
+          url TEXT NOT NULL,
+          store_id INTEGER NOT NULL,
+          item_type TEXT NOT NULL CHECK (item_type IN ('CPU', 'GPU')),
+          FOREIGN KEY (store_id) REFERENCES store(id)
+      );
+
+      CREATE TABLE IF NOT EXISTS scrape_item (
+          scrape_id INTEGER NOT NULL,
+          item_id INTEGER NOT NULL,
+          PRIMARY KEY (scrape_id, item_id),
+          FOREIGN KEY (scrape_id) REFERENCES scrape(id),
+          FOREIGN KEY (item_id) REFERENCES item(id)
+      );
+    `),
+  },
+  {
+    version: 2,
+    name: "price_history",
+    up: (db) => db.exec(`
+      CREATE TABLE IF NOT EXISTS price_history (
+          id INTEGER PRIMARY KEY,
+          scrape_id INTEGER NOT NULL,
+          item_id INTEGER NOT NULL,
+          price REAL NOT NULL,
+          url TEXT NOT NULL,
+          FOREIGN KEY (scrape_id) REFERENCES scrape(id),
+          FOREIGN KEY (item_id) REFERENCES item(id)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_price_history_item ON price_history (item_id, scrape_id);
+
+      -- Earlier scrapes only linked items, so their history starts from the price the item has now
+      INSERT INTO price_history (scrape_id, item_id, price, url)
+      SELECT si.scrape_id, si.item_id, i.price, i.url
+      FROM scrape_item si
+      JOIN item i ON i.id = si.item_id
+      WHERE NOT EXISTS (
+          SELECT 1 FROM price_history ph WHERE ph.scrape_id = si.scrape_id AND ph.item_id = si.item_id
+      );
+    `),
+  },
+  {
+    version: 3,
+    name: "watchlist",
+    up: (db) => db.exec(`
+      CREATE TABLE IF NOT EXISTS watch (
+          id INTEGER PRIMARY KEY,
+          query TEXT NOT NULL,
+          store TEXT,
+          item_type TEXT,
+          max_price REAL,
+          drop_percent REAL,
+          enabled INTEGER NOT NULL DEFAULT 1,
+          created_at TEXT NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS watch_alert (
+          id INTEGER PRIMARY KEY,
+          watch_id INTEGER NOT NULL,
+          item_id INTEGER NOT NULL,
+          scrape_id INTEGER NOT NULL,
+          price REAL NOT NULL,
+          fired_at TEXT NOT NULL,
+          UNIQUE (watch_id, item_id, price),
+          FOREIGN KEY (watch_id) REFERENCES watch(id) ON DELETE CASCADE,
+          FOREIGN KEY (item_id) REFERENCES item(id),
+          FOREIGN KEY (scrape_id) REFERENCES scrape(id)
+      );
+    `),
+  },
+  {
+    version: 4,
+    name: "schedule",
+    up: (db) => db.exec(`
+      CREATE TABLE IF NOT EXISTS schedule (
+          id INTEGER PRIMARY KEY,
+          name TEXT NOT NULL UNIQUE,
+          cron TEXT NOT NULL,
+          stores TEXT,
+          search_terms TEXT,
+          enabled INTEGER NOT NULL DEFAULT 1,
+          catch_up INTEGER NOT NULL DEFAULT 1,
+          last_run_at TEXT,
+          next_run_at TEXT,
+          last_job_id TEXT
+      );
+    `),
+  },
+  {
+    version: 5,
+    name: "canonical_products",
+    up: (db) => db.exec(`
+      CREATE TABLE IF NOT EXISTS canonical_product (
+          id INTEGER PRIMARY KEY,
+          canonical_key TEXT NOT NULL UNIQUE,
+          item_type TEXT NOT NULL,
+          chipset TEXT NOT NULL,
+          brand TEXT NOT NULL,
+          variant TEXT,
+          memory_gb INTEGER
+      );
+
+      CREATE TABLE IF NOT EXISTS canonical_item (
+          item_id INTEGER PRIMARY KEY,
+          canonical_product_id INTEGER NOT NULL,
+          FOREIGN KEY (item_id) REFERENCES item(id),
+          FOREIGN KEY (canonical_product_id) REFERENCES canonical_product(id)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_canonical_item_product ON canonical_item (canonical_product_id);
+    `),
+  },
+  {
+    version: 6,
+    name: "extend_item_categories",
+    // SQLite cannot alter a CHECK constraint, so the item table is rebuilt with its rows copied over
+    up: (db) => {
+      if (getTableSql(db, "item").includes("'MOTHERBOARD'")) return;
+
+      db.exec(`
+        CREATE TABLE item_new (
+            id INTEGER PRIMARY KEY,
+            price REAL NOT NULL,
+            name TEXT NOT NULL,
+            url TEXT NOT NULL,
+            store_id INTEGER NOT NULL,
+            item_type TEXT NOT NULL CHECK (item_type IN ('CPU', 'GPU', 'RAM', 'MOTHERBOARD', 'SSD', 'PSU')),
+            FOREIGN KEY (store_id) REFERENCES store(id)
+        );
+
+        INSERT INTO item_new (id, price, name, url, store_id, item_type)
+        SELECT id, price, name, url, store_id, item_type FROM item;
+
+        DROP TABLE item;
+
+        ALTER TABLE item_new RENAME TO item;
+      `);
+    },
+  },
+  {
+    version: 7,
+    name: "item_identifiers",
+    up: (db) => db.exec(`
+      CREATE TABLE IF NOT EXISTS item_identifier (
+          item_id INTEGER PRIMARY KEY,
+          gtin TEXT,
+          sku TEXT,
+          FOREIGN KEY (item_id) REFERENCES item(id)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_item_identifier_gtin ON item_identifier (gtin);
+    `),
+  },
+  {
+    version: 8,
+    name: "offer_availability",
+    up: (db) => {
+      const columns: readonly (readonly [string, string])[] = [
+        ["availability", "TEXT NOT NULL DEFAULT 'unknown'"],
+        ["delivery_estimate", "TEXT"],
+        ["seller", "TEXT"],
+        ["is_marketplace", "INTEGER"],
+      ];
+
+      columns
+        .filter(([column]) => !hasColumn(db, "price_history", column))
+        .forEach(([column, definition]) => db.exec(`ALTER TABLE price_history ADD COLUMN ${column} ${definition}`));
+    },
+  },
+  {
+    version: 9,
+    name: "managed_stores_and_search_terms",
+    // Rows that only carry a name (stores seen in old scrapes) stay unconfigured and are never scraped
+    up: (db) => {
+      const columns: readonly (readonly [string, string])[] = [
+        ["base_url", "TEXT"],
+        ["search_path", "TEXT"],
+        ["search_param", "TEXT"],
+        ["requires_browser", "INTEGER NOT NULL DEFAULT 0"],
+        ["adapter", "TEXT"],
+        ["requests_per_minute", "REAL NOT NULL DEFAULT 20"],
+        ["concurrency", "INTEGER NOT NULL DEFAULT 1"],
+        ["enabled", "INTEGER NOT NULL DEFAULT 1"],
+      ];
+
+      // The seed is spelled out so later edits to the store and category config never change what this step wrote
+      // name, base_url, search_path, search_param, requires_browser, adapter, requests_per_minute, concurrency
+      const stores: readonly (readonly [string, string, string, string, number, string, number, number])[] = [
+        ["Megekko", "https://www.megekko.nl", "/zoeken", "q", 1, "megekko", 10, 1],
+        ["Coolblue", "https://www.coolblue.nl", "/zoeken", "query", 0, "coolblue", 20, 2],
+        ["Alternate", "https://www.alternate.nl", "/listing.xhtml", "q", 0, "alternate", 20, 2],
+        ["Azerty", "https://azerty.nl", "/catalogsearch/result/", "q", 0, "azerty", 15, 1],
+      ];
+      const searchTerms: readonly (readonly [string, string])[] = [
+        ["AMD Radeon 7700XT", "GPU"],
+        ["AMD Radeon 7900XT", "GPU"],
+        ["AMD Radeon 7900XTX", "GPU"],
+        ["NVIDIA GeForce 5070 ti", "GPU"],
+        ["NVIDIA GeForce 5080", "GPU"],
+        ["NVIDIA GeForce 4070 TI Super", "GPU"],
+        ["AMD Ryzen 9950X3D", "CPU"],
+        ["AMD Ryzen 9900X3D", "CPU"],
+        ["AMD Ryzen 7950X3D", "CPU"],
+        ["AMD Ryzen 7800X3D", "CPU"],
+        ["AMD Ryzen 7900X3D", "CPU"],
+        ["DDR5 32GB 6000 CL30", "RAM"],
+        ["AM5 moederbord B650", "MOTHERBOARD"],
+        ["AM5 moederbord X870", "MOTHERBOARD"],
+        ["NVMe SSD 2TB", "SSD"],
+        ["850W voeding", "PSU"],
+      ];
+
+      columns
+        .filter(([column]) => !hasColumn(db, "store", column))
+        .forEach(([column, definition]) => db.exec(`ALTER TABLE store ADD COLUMN ${column} ${definition}`));
+
+      db.exec(`
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_store_name ON store (name COLLATE NOCASE);
+
+        CREATE TABLE IF NOT EXISTS search_term (
+            id INTEGER PRIMARY KEY,
+            term TEXT NOT NULL UNIQUE COLLATE NOCASE,
+            item_type TEXT,
+            enabled INTEGER NOT NULL DEFAULT 1,
+            created_at TEXT NOT NULL
+        );
+      `);
+
+      const storeStmt = db.prepare(`
+        INSERT INTO store (name, base_url, search_path, search_param, requires_browser, adapter, requests_per_minute, concurrency) 
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT (name) DO UPDATE SET 
+          base_url = excluded.base_url,
+          search_path = excluded.search_path,
+          search_param = excluded.search_param,
+          requires_browser = excluded.requires_browser,
+          adapter = excluded.adapter,
+          requests_per_minute = excluded.requests_per_minute,
+          concurrency = excluded.concurrency
+      `);
+      stores.forEach((store) => storeStmt.run(...store));
+
+      const termStmt = db.prepare(`
+        INSERT OR IGNORE INTO search_term (term, item_type, created_at) 
+        VALUES (?, ?, ?)
+      `);
+      const createdAt = new Date().toISOString();
+      searchTerms.forEach(([term, itemType]) => termStmt.run(term, itemType, createdAt));
+    },
+  },
+  {
+    version: 10,
+    name: "run_reports",
+    up: (db) => db.exec(`
+      CREATE TABLE IF NOT EXISTS run (
+          id INTEGER PRIMARY KEY,
+          job_id TEXT,
+          scrape_id INTEGER,
+          status TEXT NOT NULL,
+          started_at TEXT NOT NULL,
+          finished_at TEXT NOT NULL,
+          duration_ms INTEGER NOT NULL,
+          product_count INTEGER NOT NULL,
+          page_count INTEGER NOT NULL,
+          FOREIGN KEY (scrape_id) REFERENCES scrape(id)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_run_job ON run (job_id);
+
+      CREATE TABLE IF NOT EXISTS run_search (
+          id INTEGER PRIMARY KEY,
+          run_id INTEGER NOT NULL,
+          store TEXT NOT NULL,
+          search_term TEXT NOT NULL,
+          status TEXT NOT NULL,
+          http_status INTEGER,
+          product_count INTEGER NOT NULL,
+          page_count INTEGER NOT NULL,
+          duration_ms INTEGER NOT NULL,
+          error_type TEXT,
+          error TEXT,
+          FOREIGN KEY (run_id) REFERENCES run(id) ON DELETE CASCADE
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_run_search_run ON run_search (run_id);
+    `),
+  },
+  {
+    version: 11,
+    name: "run_search_prices",
+    up: (db) => {
+      const columns: readonly (readonly [string, string])[] = [
+        ["median_price", "REAL"],
+        ["invalid_price_count", "INTEGER NOT NULL DEFAULT 0"],
+      ];
+
+      columns
+        .filter(([column]) => !hasColumn(db, "run_search", column))
+        .forEach(([column, definition]) => db.exec(`ALTER TABLE run_search ADD COLUMN ${column} ${definition}`));
+
+      db.exec(`CREATE INDEX IF NOT EXISTS idx_run_search_target ON run_search (store, search_term, run_id)`);
+    },
+  },
+  {
+    version: 12,
+    name: "rejected_listings",
+    up: (db) => {
+      if (!hasColumn(db, "run_search", "rejected_count")) {
+        db.exec(`ALTER TABLE run_search ADD COLUMN rejected_count INTEGER NOT NULL DEFAULT 0`);
+      }
+
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS rejected_listing (
+            id INTEGER PRIMARY KEY,
+            run_id INTEGER NOT NULL,
+            store TEXT NOT NULL,
+            search_term TEXT NOT NULL,
+            name TEXT NOT NULL,
+            price REAL NOT NULL,
+            url TEXT NOT NULL,
+            item_type TEXT,
+            confidence REAL NOT NULL,
+            reason TEXT NOT NULL,
+            detail TEXT NOT NULL,
+            FOREIGN KEY (run_id) REFERENCES run(id) ON DELETE CASCADE
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_rejected_listing_run ON rejected_listing (run_id);
+      `);
+    },
+  },
+  {
+    version: 13,
+    name: "run_insights",
+    up: (db) => db.exec(`
+      CREATE TABLE IF NOT EXISTS run_insights (
+          run_id INTEGER PRIMARY KEY,
+          source TEXT NOT NULL,
+          model TEXT,
+          insights TEXT NOT NULL,
+          recommendations TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          FOREIGN KEY (run_id) REFERENCES run(id) ON DELETE CASCADE
+      );
+    `),
+  },
+] as const;
+
+const ensureSchemaVersionTable = (db: DatabaseConnection): void => {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_version (
+        version INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        applied_at TEXT NOT NULL
+    );
+  `);
+};
+
+const getSchemaVersion = (db: DatabaseConnection): number => {
+  ensureSchemaVersionTable(db);
+  const result = db.prepare('SELECT MAX(version) AS version FROM schema_version').get() as { version: number | null };
+  return result.version ?? 0;
+};
+
+const applyMigration = (db: DatabaseConnection, migration: Migration): void => {
+  db.transaction(() => {
+    migration.up(db);
+    db.prepare('INSERT INTO schema_version (version, name, applied_at) VALUES (?, ?, ?)')
+      .run(migration.version, migration.name, new Date().toISOString());
+  })();
+};
+
+// Applies every migration newer than the recorded schema version, each in its own transaction
+const runMigrations = (db: DatabaseConnection): readonly Migration[] => {
+  const currentVersion = getSchemaVersion(db);
+  const pending = MIGRATIONS.filter((migration) => migration.version > currentVersion);
+
+  if (pending.length === 0) return [];
+
+  // Table rebuilds would trip foreign key checks halfway through, and the pragma is ignored inside a transaction
+  db.pragma('foreign_keys = OFF');
+  try {
+    pending.forEach((migration) => {
+      console.log(`🗄️  Applying migration ${migration.version} (${migration.name})...`);
+      applyMigration(db, migration);
+    });
+  } finally {
+    db.pragma('foreign_keys = ON');
+  }
+
+  console.log(`🗄️  Database schema is at version ${getSchemaVersion(db)}`);
+  return pending;
+};
+
+export {
+  MIGRATIONS,
+  getSchemaVersion,
+  runMigrations
+};
@@ -0,0 +1,17 @@
+// Shared by reports, validation and health; imports nothing so none of them depend on each other
+const isValidPrice = (price: number): boolean => Number.isFinite(price) && price > 0;
+
+const median = (values: readonly number[]): number | null => {
+  if (values.length === 0) return null;
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1
+    ? sorted[middle] ?? null
+    : ((sorted[middle - 1] ?? 0) + (sorted[middle] ?? 0)) / 2;
+};
+
+export {
+  isValidPrice,
+  median
+};
@@ -0,0 +1,37 @@
+import { isValidPrice, median } from './pricing.js';
+import { Item, RunStatus, SearchReport, SearchStatus } from './types.js';
+
+const STATUS_ICONS: Readonly<Record<SearchStatus, string>> = {
+  ok: "✅",
+  empty: "⚠️",
+  failed: "❌",
+};
+
+const summarizePrices = (products: readonly Item[]): Pick<SearchReport, "medianPrice" | "invalidPrices"> => ({
+  medianPrice: median(products.map((product) => product.price).filter(isValidPrice)),
+  invalidPrices: products.filter((product) => !isValidPrice(product.price)).length,
+});
+
+// A run with no failed searches succeeded, even when some of them found nothing
+const getRunStatus = (searches: readonly SearchReport[]): RunStatus => {
+  const failures = searches.filter((search) => search.status === "failed").length;
+  return failures === 0 ? "success" : failures < searches.length ? "partial" : "failed";
+};
+
+const formatSearchReport = (search: SearchReport): string => {
+  const details = [
+    search.httpStatus !== null ? `HTTP ${search.httpStatus}` : null,
+    `${search.productCount} products`,
+    `${search.pages} pages`,
+    `${(search.durationMs / 1000).toFixed(1)}s`,
+    search.errorType,
+  ].filter((detail): detail is string => detail !== null);
+
+  return `${STATUS_ICONS[search.status]} ${search.store} "${search.searchTerm}": ${search.status} (${details.join(", ")})`;
+};
+
+export {
+  summarizePrices,
+  getRunStatus,
+  formatSearchReport
+};
@@ -0,0 +1,133 @@
+import { getNextRun, isValidCron } from './cron.js';
+import { getSchedules, saveScheduleRun } from './database.js';
+import { enqueueRun, isRunActive, parseRunOptions } from './jobs.js';
+import { Schedule, ScheduleInput } from './types.js';
+
+const TICK_INTERVAL_MS = 30000;
+
+let timer: NodeJS.Timeout | null = null;
+
+const isDue = (schedule: Schedule, now: Date): boolean =>
+  schedule.enabled && schedule.nextRunAt !== null && new Date(schedule.nextRunAt) <= now;
+
+const planNextRun = (schedule: Schedule, now: Date): void => {
+  saveScheduleRun(schedule.id, {
+    lastRunAt: schedule.lastRunAt,
+    nextRunAt: getNextRun(schedule.cron, now).toISOString(),
+    lastJobId: schedule.lastJobId
+  });
+};
+
+// Runs missed while the server was down fire once if the entry allows catching up,
+// otherwise they are skipped and the entry moves on to its next slot
+const handleMissedRuns = (now: Date): void => {
+  getSchedules()
+    .filter((schedule) => isDue(schedule, now) && !schedule.catchUp)
+    .forEach((schedule) => {
+      console.log(`⏭️  Skipping missed run of schedule "${schedule.name}" (was due ${schedule.nextRunAt})`);
+      planNextRun(schedule, now);
+    });
+};
+
+const startScheduledRun = (schedule: Schedule, now: Date): void => {
+  const job = enqueueRun({
+    ...(schedule.stores ? { stores: schedule.stores } : {}),
+    ...(schedule.searchTerms ? { searchTerms: schedule.searchTerms } : {})
+  });
+
+  if (!job) return;
+
+  console.log(`[${job.id}] ⏰ Started scheduled run "${schedule.name}"`);
+  saveScheduleRun(schedule.id, {
+    lastRunAt: now.toISOString(),
+    nextRunAt: getNextRun(schedule.cron, now).toISOString(),
+    lastJobId: job.id
+  });
+};
+
+// New or changed entries have no next run yet
+const planPendingRuns = (now: Date): readonly Schedule[] => {
+  getSchedules()
+    .filter((schedule) => schedule.nextRunAt === null)
+    .forEach((schedule) => planNextRun(schedule, now));
+
+  return getSchedules();
+};
+
+const tick = (): void => {
+  try {
+    const now = new Date();
+    const schedules = planPendingRuns(now);
+
+    // Due entries simply stay due until the active run has finished
+    if (isRunActive()) return;
+
+    const dueSchedule = schedules.find((schedule) => isDue(schedule, now));
+    if (dueSchedule) {
+      startScheduledRun(dueSchedule, now);
+    }
+  } catch (error) {
+    console.error('❌ Scheduler tick failed:', error);
+  }
+};
+
+const startScheduler = (): void => {
+  if (timer) return;
+
+  handleMissedRuns(new Date());
+  tick();
+  timer = setInterval(tick, TICK_INTERVAL_MS);
+  console.log(`⏰ Scheduler started (${getSchedules().length} schedule entries)`);
+};
+
+const stopScheduler = (): void => {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+};
+
+const refreshSchedules = (): readonly Schedule[] => planPendingRuns(new Date());
+
+const parseScheduleInput = (body: any): readonly ScheduleInput[] | string => {
+  if (!Array.isArray(body)) {
+    return "Schedule must be an array of entries";
+  }
+
+  const entries: ScheduleInput[] = [];
+
+  for (const entry of body) {
+    if (typeof entry?.name !== "string" || !entry.name.trim()) {
+      return "Every schedule entry needs a name";
+    }
+    if (entries.some((existing) => existing.name === entry.name.trim())) {
+      return `Duplicate schedule entry "${entry.name}"`;
+    }
+    if (typeof entry.cron !== "string" || !isValidCron(entry.cron)) {
+      return `Invalid cron expression for "${entry.name}"`;
+    }
+
+    const options = parseRunOptions({ stores: entry.stores ?? undefined, searchTerms: entry.searchTerms ?? undefined });
+    if (typeof options === "string") {
+      return `${entry.name}: ${options}`;
+    }
+
+    entries.push({
+      name: entry.name.trim(),
+      cron: entry.cron.trim(),
+      stores: options.stores ?? null,
+      searchTerms: options.searchTerms ?? null,
+      enabled: entry.enabled !== false,
+      catchUp: entry.catchUp !== false
+    });
+  }
+
+  return entries;
+};
+
+export {
+  startScheduler,
+  stopScheduler,
+  refreshSchedules,
+  parseScheduleInput
+};
@@ -1,54 +1,32 @@
 import fetch from "node-fetch";
 import { JSDOM } from "jsdom";
-import { chromium } from "playwright";
-import { Item, ScrapingResult } from './types.js';
-
-const GPU_KEYWORDS: readonly string[] = [
-  "7700xt",
-  "7900xt",
-  "7900xtx",
-  "Radeon",
-  "XFX",
-  "MSI",
-  "Shapphire",
-  "PowerColor",
-  "Gigabyte",
-  "5070 ti",
-  "5080",
-  "4070 ti super",
-  "GeForce",
-] as const;
-
-const CPU_KEYWORDS: readonly string[] = ["ryzen 7", "ryzen 9", "ryzen 5", "core2duo"] as const;
-
-const PRODUCT_SELECTORS: readonly string[] = [
-  ".prdContainer",
-  ".product-grid__card",
-  ".productBox",
-  ".product-item",
-] as const;
-
-const NAME_SELECTORS: readonly string[] = [
-  ".prdTitle",
-  ".product-card__title",
-  ".product-name",
-  ".product-item-link",
-] as const;
-
-const PRICE_SELECTORS: readonly string[] = [".prsEuro", ".js-sales-price-wrapper", ".price"] as const;
+import { Page } from "playwright";
+import {
+  Availability,
+  Item,
+  RunProgress,
+  ScrapingResult,
+  SearchReport,
+  SearchStep,
+  StoreAdapter,
+  StoreScrapeResult
+} from './types.js';
+import { Store } from './config/stores.js';
+import { parseEuroPrice, SEARCH_TERM_PLACEHOLDER } from './config/adapters.js';
+import { classifyProduct, matchesCategory } from './config/categories.js';
+import { acceptCookies, releaseBrowserPool, retainBrowserPool, withBrowserPage } from './browser.js';
+import { isReplaying, recordPage, replayPage } from './fixtures.js';
+import { classifyError, getHostLimiter, HttpError, parseRetryAfter, withRetry } from './throttling.js';
+import { recordRun, recordStoreFailure, recordStoreRequest, recordStoreSuccess } from './metrics.js';
+import { getRunStatus, summarizePrices } from './reports.js';
+import { validateSearchResults } from './validation.js';
 
 const delay = (ms: number): Promise<void> =>
   new Promise((resolve) => setTimeout(resolve, ms));
 
-const isGPU = (productName: string): boolean => {
-  const name = productName.replace(/\s+/g, "").toLowerCase();
-  return GPU_KEYWORDS.some((keyword) => name.includes(keyword.toLowerCase()));
-};
+const isGPU = (productName: string): boolean => matchesCategory("GPU", productName);
 
-const isCPU = (productName: string): boolean => {
-  const name = productName.replace(/\s+/g, "").toLowerCase();
-  return CPU_KEYWORDS.some((keyword) => name.includes(keyword.toLowerCase()));
-};
+const isCPU = (productName: string): boolean => matchesCategory("CPU", productName);
 
 const extractProductName = (element: Element, nameSelectors: readonly string[]): string => {
   return (
@@ -58,30 +36,29 @@ const extractProductName = (element: Element, nameSelectors: readonly string[]):
   );
 };
 
-const extractProductPrice = (element: Element, priceSelectors: readonly string[]): number => {
+const extractProductPrice = (
+  element: Element,
+  priceSelectors: readonly string[],
+  parsePrice: (text: string) => number = parseEuroPrice
+): number => {
   return (
     priceSelectors
       .map((selector) => {
-        const priceEl = element.querySelector(selector);
-        if (priceEl?.textContent?.trim()) {
-          const priceText = priceEl.textContent
-            ?.replace(/[^\d,.]/g, "")
-            .replace(/\./g, "")
-            .replace(",", ".")
-            .trim() ?? "";
-          return priceText ? parseFloat(priceText) : -1;
-        }
-        return -1;
+        const priceText = element.querySelector(selector)?.textContent?.trim();
+        return priceText ? parsePrice(priceText) : -1;
       })
       .find((price) => price > 0) ?? -1
   );
 };
 
-const extractProductUrl = (element: Element, storeBaseUrl: string): string => {
-  const linkHref = [
-    ...element.querySelectorAll("a[href]")
-  ]
-    .map((el) => (el as HTMLAnchorElement).href)
+const extractProductUrl = (
+  element: Element,
+  storeBaseUrl: string,
+  urlSelectors: readonly string[] = ["a[href]"]
+): string => {
+  const linkHref = urlSelectors
+    .flatMap((selector) => [...element.querySelectorAll(selector)])
+    .map((el) => el.getAttribute("href") ?? "")
     .find((href) => !!href);
   if (linkHref) {
     return linkHref.startsWith("http") ? linkHref : `${storeBaseUrl}${linkHref}`;
@@ -92,22 +69,44 @@ const extractProductUrl = (element: Element, storeBaseUrl: string): string => {
   return "";
 };
 
+const extractText = (element: Element, selectors: readonly string[] = []): string =>
+  selectors
+    .map((selector) => element.querySelector(selector)?.textContent?.replace(/\s+/g, " ").trim() ?? "")
+    .find((text) => !!text) ?? "";
+
+const isMarketplaceSeller = (seller: string, storeName: string): boolean =>
+  !!seller && !seller.toLowerCase().includes(storeName.toLowerCase());
+
+// Availability, delivery text and seller are only set when the page mentions them
+const extractOfferDetails = (
+  fields: { readonly availability: Availability; readonly deliveryEstimate: string; readonly seller: string },
+  storeName: string
+): Pick<Item, "availability" | "deliveryEstimate" | "seller" | "isMarketplace"> => ({
+  availability: fields.availability,
+  ...(fields.deliveryEstimate ? { deliveryEstimate: fields.deliveryEstimate } : {}),
+  ...(fields.seller
+    ? { seller: fields.seller, isMarketplace: isMarketplaceSeller(fields.seller, storeName) }
+    : {}),
+});
+
 const extractSingleProduct = (
   element: Element,
   storeName: string,
   storeBaseUrl: string,
-  nameSelectors: readonly string[],
-  priceSelectors: readonly string[]
+  adapter: StoreAdapter
 ): Item | null => {
-  const name = extractProductName(element, nameSelectors);
-  const price = extractProductPrice(element, priceSelectors);
-  const url = extractProductUrl(element, storeBaseUrl);
+  const name = extractProductName(element, adapter.selectors.name);
+  const price = extractProductPrice(element, adapter.selectors.price, adapter.parsePrice);
+  const url = extractProductUrl(element, storeBaseUrl, adapter.selectors.url);
 
-  if (!name || !price) {
+  const category = classifyProduct(name);
+
+  // Unparseable prices (-1) are kept so validateSearchResults can record them as rejections
+  if (!name || !category) {
     return null;
   }
 
-  const category: "GPU" | "CPU" = isGPU(name) ? "GPU" : "CPU";
+  const availabilityText = extractText(element, adapter.selectors.availability);
 
   return {
     name,
@@ -115,17 +114,26 @@ const extractSingleProduct = (
     url,
     store: storeName,
     category,
+    ...extractOfferDetails(
+      {
+        availability: availabilityText ? adapter.parseAvailability(availabilityText) : "unknown",
+        deliveryEstimate: extractText(element, adapter.selectors.delivery),
+        seller: extractText(element, adapter.selectors.seller),
+      },
+      storeName
+    ),
   };
 };
 
-const extractProducts = (
+const extractProductsWithSelectors = (
   document: Document,
   storeName: string,
-  storeBaseUrl: string
+  storeBaseUrl: string,
+  adapter: StoreAdapter
 ): readonly Item[] => {
   const products: Item[] = [];
 
-  for (const productSelector of PRODUCT_SELECTORS) {
+  for (const productSelector of adapter.selectors.product) {
     const productElements = document.querySelectorAll(productSelector);
 
     if (productElements.length > 0) {
@@ -134,8 +142,7 @@ const extractProducts = (
           element,
           storeName,
           storeBaseUrl,
-          NAME_SELECTORS,
-          PRICE_SELECTORS
+          adapter
         );
         if (product) {
           products.push(product);
@@ -145,109 +152,548 @@ const extractProducts = (
     }
   }
 
-  return products.filter(
-    (product) => isGPU(product.name) || isCPU(product.name)
-  );
+  return products;
 };
 
-const scrapeStoreWithBrowser = async (
-  store: { readonly name: string; readonly baseUrl: string; readonly searchPath: string; readonly searchParam: string },
-  searchTerm: string
-): Promise<readonly Item[]> => {
-  const browser = await chromium.launch({ headless: true });
-  const page = await browser.newPage();
+const toAbsoluteUrl = (href: string, storeBaseUrl: string): string =>
+  !href || href.startsWith("http") ? href : `${storeBaseUrl}${href.startsWith("/") ? "" : "/"}${href}`;
 
-  try {
-    console.log(`🌐 Opening ${store.baseUrl} for ${store.name}...`);
-    await page.goto(store.baseUrl);
+const hasSchemaType = (node: any, type: string): boolean =>
+  [node?.["@type"]].flat().some((value) => typeof value === "string" && value.endsWith(type));
 
-    await page.waitForSelector("#searchFieldInputField", { timeout: 10000 });
+const parseStructuredPrice = (value: unknown, parsePrice: (text: string) => number): number => {
+  if (typeof value === "number") return value;
+  if (typeof value !== "string" || !value.trim()) return -1;
+  // schema.org prices use a dot as decimal separator ("1099.00"); anything else is shop formatted
+  return /^\d+(\.\d+)?$/.test(value.trim()) ? parseFloat(value) : parsePrice(value);
+};
 
-    await page.fill("#searchFieldInputField", "");
-    await page.fill("#searchFieldInputField", searchTerm);
+const parseSchemaAvailability = (value: unknown): Availability => {
+  const availability = typeof value === "string" ? value.split("/").pop()?.toLowerCase() ?? "" : "";
 
-    await page.press("#searchFieldInputField", "Enter");
+  if (["instock", "limitedavailability", "instoreonly", "onlineonly"].includes(availability)) return "in_stock";
+  if (["backorder", "preorder", "presale"].includes(availability)) return "backorder";
+  if (["outofstock", "soldout", "discontinued"].includes(availability)) return "out_of_stock";
+  return "unknown";
+};
 
-    await page.waitForLoadState("networkidle");
+const createStructuredItem = (
+  fields: {
+    readonly name: string;
+    readonly price: number;
+    readonly url: string;
+    readonly gtin?: string;
+    readonly sku?: string;
+    readonly availability: Availability;
+    readonly seller: string;
+  },
+  storeName: string
+): Item | null => {
+  const category = classifyProduct(fields.name);
 
-    const html = await page.content();
-    const dom = new JSDOM(html);
-    const document = dom.window.document;
+  if (!fields.name || !category) {
+    return null;
+  }
+
+  return {
+    name: fields.name,
+    price: fields.price,
+    url: fields.url,
+    store: storeName,
+    category,
+    ...(fields.gtin ? { gtin: fields.gtin } : {}),
+    ...(fields.sku ? { sku: fields.sku } : {}),
+    ...extractOfferDetails(
+      { availability: fields.availability, deliveryEstimate: "", seller: fields.seller },
+      storeName
+    ),
+  };
+};
+
+// Walks @graph containers, arrays and ItemList/ListItem wrappers down to Product nodes
+const collectJsonLdProducts = (node: any): readonly any[] => {
+  if (Array.isArray(node)) return node.flatMap(collectJsonLdProducts);
+  if (!node || typeof node !== "object") return [];
+  if (hasSchemaType(node, "Product")) return [node];
 
-    return extractProducts(document, store.name, store.baseUrl);
-  } finally {
-    await browser.close();
+  return [node["@graph"], node.itemListElement, node.item, node.mainEntity]
+    .filter((child) => child !== undefined)
+    .flatMap(collectJsonLdProducts);
+};
+
+const toIdentifier = (value: unknown): string | undefined =>
+  typeof value === "string" || typeof value === "number" ? String(value) : undefined;
+
+const parseJsonLd = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return null;
   }
 };
 
-const scrapeStoreWithFetch = async (
-  store: { readonly name: string; readonly baseUrl: string; readonly searchPath: string; readonly searchParam: string },
-  searchTerm: string
-): Promise<readonly Item[]> => {
-  const searchUrl = `${store.baseUrl}${store.searchPath}?${
+const extractJsonLdProducts = (
+  document: Document,
+  storeName: string,
+  storeBaseUrl: string,
+  adapter: StoreAdapter
+): readonly Item[] =>
+  [...document.querySelectorAll('script[type="application/ld+json"]')]
+    .flatMap((script) => collectJsonLdProducts(parseJsonLd(script.textContent ?? "")))
+    .map((product) => {
+      const offer = [product.offers].flat().find((offer: any) => offer && typeof offer === "object") ?? {};
+      const currency = offer.priceCurrency ?? "EUR";
+
+      return createStructuredItem(
+        {
+          name: typeof product.name === "string" ? product.name.trim() : "",
+          price: currency === "EUR" ? parseStructuredPrice(offer.price ?? offer.lowPrice, adapter.parsePrice) : -1,
+          url: toAbsoluteUrl(product.url ?? offer.url ?? "", storeBaseUrl),
+          gtin: toIdentifier(product.gtin13 ?? product.gtin ?? product.gtin14 ?? product.gtin12 ?? product.gtin8),
+          sku: toIdentifier(product.sku),
+          availability: parseSchemaAvailability(offer.availability),
+          seller: typeof offer.seller?.name === "string" ? offer.seller.name.trim() : "",
+        },
+        storeName
+      );
+    })
+    .filter((product): product is Item => product !== null);
+
+const getItemprop = (element: Element, prop: string): string => {
+  const propElement = element.querySelector(`[itemprop="${prop}"]`);
+  return (
+    propElement?.getAttribute("content") ??
+    propElement?.getAttribute("href") ??
+    propElement?.textContent ??
+    ""
+  ).trim();
+};
+
+const extractMicrodataProducts = (
+  document: Document,
+  storeName: string,
+  storeBaseUrl: string,
+  adapter: StoreAdapter
+): readonly Item[] =>
+  [...document.querySelectorAll('[itemtype*="schema.org/Product"]')]
+    .map((element) =>
+      createStructuredItem(
+        {
+          name: getItemprop(element, "name"),
+          price: parseStructuredPrice(getItemprop(element, "price"), adapter.parsePrice),
+          url: toAbsoluteUrl(
+            getItemprop(element, "url") || (element.querySelector("a[href]")?.getAttribute("href") ?? ""),
+            storeBaseUrl
+          ),
+          gtin: getItemprop(element, "gtin13") || getItemprop(element, "gtin") || undefined,
+          sku: getItemprop(element, "sku") || undefined,
+          availability: parseSchemaAvailability(getItemprop(element, "availability")),
+          seller: getItemprop(element, "seller"),
+        },
+        storeName
+      )
+    )
+    .filter((product): product is Item => product !== null);
+
+const extractStructuredProducts = (
+  document: Document,
+  storeName: string,
+  storeBaseUrl: string,
+  adapter: StoreAdapter
+): readonly Item[] => {
+  const jsonLdProducts = extractJsonLdProducts(document, storeName, storeBaseUrl, adapter);
+  return jsonLdProducts.length > 0
+    ? jsonLdProducts
+    : extractMicrodataProducts(document, storeName, storeBaseUrl, adapter);
+};
+
+const isSameListing = (a: Item, b: Item): boolean => a.name === b.name && a.url === b.url;
+
+// Structured data wins because it survives redesigns; selector results only add
+// listings the shop did not describe in JSON-LD or microdata
+const extractProducts = (
+  document: Document,
+  storeName: string,
+  storeBaseUrl: string,
+  adapter: StoreAdapter
+): readonly Item[] => {
+  const structuredProducts = extractStructuredProducts(document, storeName, storeBaseUrl, adapter);
+  const selectorProducts = extractProductsWithSelectors(document, storeName, storeBaseUrl, adapter);
+
+  // Structured data rarely carries delivery text, so the DOM listing fills the gaps
+  const mergedProducts = structuredProducts.map((structured) => {
+    const listing = selectorProducts.find((product) => isSameListing(structured, product));
+    return listing
+      ? {
+          ...listing,
+          ...structured,
+          price: structured.price > 0 ? structured.price : listing.price,
+          availability: structured.availability !== "unknown" ? structured.availability : listing.availability,
+        }
+      : structured;
+  });
+
+  return [
+    ...mergedProducts,
+    ...selectorProducts.filter((product) => !structuredProducts.some((structured) => isSameListing(structured, product))),
+  ];
+};
+
+const buildSearchUrl = (store: Store, searchTerm: string): string =>
+  `${store.baseUrl}${store.searchPath}?${
     store.searchParam
   }=${encodeURIComponent(searchTerm)}`;
 
-  const response = await fetch(searchUrl, {
-    headers: {
-      "User-Agent":
-        "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36",
-    },
+const runSearchStep = async (page: Page, step: SearchStep, searchTerm: string): Promise<void> => {
+  switch (step.action) {
+    case "waitForSelector":
+      await page.waitForSelector(step.selector, { timeout: step.timeout ?? 10000 });
+      return;
+    case "fill":
+      await page.fill(step.selector, step.value.replace(SEARCH_TERM_PLACEHOLDER, searchTerm));
+      return;
+    case "press":
+      await page.press(step.selector, step.key);
+      return;
+    case "click":
+      await page.click(step.selector);
+      return;
+    case "waitForLoadState":
+      await page.waitForLoadState(step.state);
+      return;
+  }
+};
+
+const DEFAULT_MAX_PAGES = parseInt(process.env.SCRAPE_MAX_PAGES ?? "") || 3;
+const REQUEST_TIMEOUT_MS = parseInt(process.env.SCRAPE_TIMEOUT_MS ?? "") || 30000;
+
+const getStoreLimiter = (store: Store) => getHostLimiter(store.baseUrl, store.rateLimit);
+
+const toHttpError = (store: Store, status: number, retryAfter: string | null | undefined): HttpError =>
+  new HttpError(status, `HTTP ${status} for ${store.name}`, parseRetryAfter(retryAfter));
+
+const getNextPageUrl = (
+  store: Store,
+  document: Document,
+  searchTerm: string,
+  nextPage: number
+): string | null => {
+  const { pagination } = store.adapter;
+
+  switch (pagination?.type) {
+    case "pageParam":
+      return `${buildSearchUrl(store, searchTerm)}&${pagination.param}=${nextPage - 1 + (pagination.firstPage ?? 1)}`;
+    case "nextLink": {
+      const href = document.querySelector(pagination.selector)?.getAttribute("href");
+      return href ? (href.startsWith("http") ? href : `${store.baseUrl}${href}`) : null;
+    }
+    default:
+      return null;
+  }
+};
+
+interface LoadedPage {
+  readonly html: string;
+  readonly status: number | null;
+}
+
+// Keeps loading pages until the cap, a page without new listings, or no next page.
+// Only the first page may fail the search; a later failure ends it with what was found so far.
+const scrapePages = async (
+  store: Store,
+  searchTerm: string,
+  maxPages: number,
+  loadPage: (url: string | null) => Promise<LoadedPage>
+): Promise<StoreScrapeResult> => {
+  const products: Item[] = [];
+  let url: string | null = null;
+  let pages = 0;
+  let httpStatus: number | null = null;
+
+  do {
+    let loaded: LoadedPage;
+    try {
+      loaded = await loadPage(url);
+    } catch (error) {
+      if (pages === 0) throw error;
+
+      console.warn(`⚠️ ${store.name}: page ${pages + 1} for "${searchTerm}" failed, keeping ${products.length} products:`, error instanceof Error ? error.message : error);
+      return {
+        products,
+        pages,
+        httpStatus: error instanceof HttpError ? error.status : httpStatus,
+        error: error instanceof Error ? error : new Error(String(error)),
+      };
+    }
+
+    httpStatus = loaded.status;
+    await recordPage(store.name, searchTerm, pages + 1, loaded.html);
+    const document = new JSDOM(loaded.html).window.document;
+
+    const newProducts = extractProducts(document, store.name, store.baseUrl, store.adapter).filter(
+      (product) => !products.some((existing) => isSameListing(existing, product))
+    );
+    if (newProducts.length === 0) break;
+    products.push(...newProducts);
+    pages++;
+
+    url = pages < maxPages ? getNextPageUrl(store, document, searchTerm, pages + 1) : null;
+    if (url) {
+      console.log(`📄 ${store.name}: loading page ${pages + 1} for "${searchTerm}"...`);
+    }
+  } while (url);
+
+  return { products, pages, httpStatus };
+};
+
+// Serves recorded snapshots page by page, so the stop conditions match a live run
+const replayStore = (store: Store, searchTerm: string, maxPages: number): Promise<StoreScrapeResult> => {
+  let page = 0;
+  return scrapePages(store, searchTerm, maxPages, async () => ({
+    html: await replayPage(store.name, searchTerm, ++page),
+    status: null,
+  }));
+};
+
+const clickLoadMore = async (store: Store, page: Page, selector: string, maxPages: number): Promise<number> => {
+  let pages = 1;
+
+  while (pages < maxPages && (await page.$(selector))) {
+    await getStoreLimiter(store).waitForTurn();
+    await page.click(selector);
+    await page.waitForLoadState("networkidle");
+    pages++;
+  }
+
+  return pages;
+};
+
+// Blocked or overloaded responses throw so withRetry can back off and try again
+const openPage = (store: Store, page: Page, url: string): Promise<number | null> =>
+  withRetry(`${store.name} ${url}`, async () => {
+    await getStoreLimiter(store).waitForTurn();
+    const response = await page.goto(url, { timeout: REQUEST_TIMEOUT_MS }).catch((error) => {
+      recordStoreRequest(store.name, classifyError(error));
+      throw error;
+    });
+    recordStoreRequest(store.name, response?.status() ?? "unknown");
+
+    if (response && (response.status() === 429 || response.status() >= 500)) {
+      throw toHttpError(store, response.status(), response.headers()["retry-after"]);
+    }
+    await page.waitForLoadState("networkidle");
+    return response?.status() ?? null;
+  });
+
+const scrapeStoreWithBrowser = async (
+  store: Store,
+  searchTerm: string,
+  maxPages: number = DEFAULT_MAX_PAGES
+): Promise<StoreScrapeResult> => {
+  if (isReplaying()) {
+    return replayStore(store, searchTerm, maxPages);
+  }
+
+  return withBrowserPage(store, async (page) => {
+    const { searchSteps, pagination } = store.adapter;
+    let httpStatus: number | null;
+
+    if (searchSteps) {
+      console.log(`🌐 Opening ${store.baseUrl} for ${store.name}...`);
+      httpStatus = await openPage(store, page, store.baseUrl);
+      await acceptCookies(store, page);
+
+      for (const step of searchSteps) {
+        await runSearchStep(page, step, searchTerm);
+      }
+    } else {
+      const searchUrl = buildSearchUrl(store, searchTerm);
+      console.log(`🌐 Opening ${searchUrl} for ${store.name}...`);
+      httpStatus = await openPage(store, page, searchUrl);
+      await acceptCookies(store, page);
+    }
+
+    if (pagination?.type === "loadMore") {
+      const pages = await clickLoadMore(store, page, pagination.selector, maxPages);
+      const html = await page.content();
+      // The grown list is recorded as a single page
+      await recordPage(store.name, searchTerm, 1, html);
+      const document = new JSDOM(html).window.document;
+      return { products: extractProducts(document, store.name, store.baseUrl, store.adapter), pages, httpStatus };
+    }
+
+    return await scrapePages(store, searchTerm, maxPages, async (url) => {
+      if (url) {
+        httpStatus = await openPage(store, page, url);
+      }
+      return { html: await page.content(), status: httpStatus };
+    });
+  });
+};
+
+const fetchPage = (store: Store, url: string): Promise<LoadedPage> =>
+  withRetry(`${store.name} ${url}`, async () => {
+    await getStoreLimiter(store).waitForTurn();
+    const response = await fetch(url, {
+      headers: {
+        "User-Agent":
+          "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36",
+      },
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    }).catch((error) => {
+      recordStoreRequest(store.name, classifyError(error));
+      throw error;
+    });
+    recordStoreRequest(store.name, response.status);
+
+    if (!response.ok) {
+      throw toHttpError(store, response.status, response.headers.get("retry-after"));
+    }
+
+    return { html: await response.text(), status: response.status };
   });
 
-  if (!response.ok) {
-    throw new Error(`HTTP ${response.status} for ${store.name}`);
+const scrapeStoreWithFetch = async (
+  store: Store,
+  searchTerm: string,
+  maxPages: number = DEFAULT_MAX_PAGES
+): Promise<StoreScrapeResult> => {
+  if (isReplaying()) {
+    return replayStore(store, searchTerm, maxPages);
   }
 
-  const html = await response.text();
-  const dom = new JSDOM(html);
-  const document = dom.window.document;
+  const searchUrl = buildSearchUrl(store, searchTerm);
+
+  return scrapePages(store, searchTerm, maxPages, (url) => fetchPage(store, url ?? searchUrl));
+};
+
+const scrapeStoreOrThrow = async (store: Store, searchTerm: string, maxPages: number): Promise<StoreScrapeResult> => {
+  try {
+    const result = store.requiresBrowser
+      ? await scrapeStoreWithBrowser(store, searchTerm, maxPages)
+      : await scrapeStoreWithFetch(store, searchTerm, maxPages);
 
-  return extractProducts(document, store.name, store.baseUrl);
+    recordStoreSuccess(store.name, result.products.length);
+    return result;
+  } catch (error) {
+    recordStoreFailure(store.name, classifyError(error));
+    throw error;
+  }
 };
 
 const scrapeStore = async (
-  store: { readonly name: string; readonly baseUrl: string; readonly searchPath: string; readonly searchParam: string; readonly requiresBrowser: boolean },
-  searchTerm: string
-): Promise<readonly Item[]> => {
+  store: Store,
+  searchTerm: string,
+  maxPages: number = DEFAULT_MAX_PAGES
+): Promise<StoreScrapeResult> => {
   try {
-    if (store.requiresBrowser) {
-      return await scrapeStoreWithBrowser(store, searchTerm);
-    } else {
-      return await scrapeStoreWithFetch(store, searchTerm);
-    }
+    return await scrapeStoreOrThrow(store, searchTerm, maxPages);
   } catch (error) {
     console.error(`Error scraping ${store.name}:`, error);
-    return [];
+    return { products: [], pages: 0, httpStatus: error instanceof HttpError ? error.status : null };
+  }
+};
+
+// Times one store/term pair and classifies its failure instead of only logging it
+const scrapeSearch = async (
+  store: Store,
+  searchTerm: string,
+  maxPages: number
+): Promise<{ readonly result: StoreScrapeResult; readonly report: SearchReport }> => {
+  const startedAt = Date.now();
+
+  try {
+    const result = await scrapeStoreOrThrow(store, searchTerm, maxPages);
+    return {
+      result,
+      report: {
+        store: store.name,
+        searchTerm,
+        status: result.products.length > 0 ? "ok" : "empty",
+        httpStatus: result.httpStatus,
+        productCount: result.products.length,
+        ...summarizePrices(result.products),
+        rejectedCount: 0,
+        pages: result.pages,
+        durationMs: Date.now() - startedAt,
+        errorType: result.error ? classifyError(result.error) : null,
+        error: result.error?.message ?? null,
+      },
+    };
+  } catch (error) {
+    return {
+      result: { products: [], pages: 0, httpStatus: null },
+      report: {
+        store: store.name,
+        searchTerm,
+        status: "failed",
+        httpStatus: error instanceof HttpError ? error.status : null,
+        productCount: 0,
+        medianPrice: null,
+        invalidPrices: 0,
+        rejectedCount: 0,
+        pages: 0,
+        durationMs: Date.now() - startedAt,
+        errorType: classifyError(error),
+        error: error instanceof Error ? error.message : String(error),
+      },
+    };
   }
 };
 
+// Stores run in parallel; each host's limiter decides how many of its terms run at once
 const scrapeAllStores = async (
-  stores: readonly { readonly name: string; readonly baseUrl: string; readonly searchPath: string; readonly searchParam: string; readonly requiresBrowser: boolean }[],
-  searchTerms: readonly string[]
+  stores: readonly Store[],
+  searchTerms: readonly string[],
+  onProgress?: (progress: RunProgress) => void,
+  maxPages: number = DEFAULT_MAX_PAGES
 ): Promise<ScrapingResult> => {
-  const products: Item[] = [];
   const errors: string[] = [];
+  const tasks = stores.flatMap((store) => searchTerms.map((searchTerm) => ({ store, searchTerm })));
+  const total = tasks.length;
+  let completed = 0;
+
+  const startedAt = Date.now();
+  console.log(`Scraping ${stores.map((store) => store.name).join(", ")}...`);
+
+  // Keeps the shared browser open across all terms instead of launching one per page
+  retainBrowserPool();
+
+  const results = await Promise.all(
+    tasks.map(({ store, searchTerm }) =>
+      getStoreLimiter(store).run(async () => {
+        const search = await scrapeSearch(store, searchTerm, maxPages);
+        if (search.report.status === "failed") {
+          const errorMsg = `Failed to scrape ${store.name} for "${searchTerm}": ${search.report.error}`;
+          errors.push(errorMsg);
+          console.error(errorMsg);
+        }
 
-  for (const store of stores) {
-    console.log(`Scraping ${store.name}...`);
-
-    for (const searchTerm of searchTerms) {
-      try {
-        const storeProducts = await scrapeStore(store, searchTerm);
-        products.push(...storeProducts);
-
-        await delay(1000);
-      } catch (error) {
-        const errorMsg = `Failed to scrape ${store.name} for "${searchTerm}": ${error}`;
-        errors.push(errorMsg);
-        console.error(errorMsg);
-      }
-    }
+        completed++;
+        onProgress?.({ completed, total });
+        return search;
+      })
+    )
+  ).finally(releaseBrowserPool);
 
-    await delay(2000);
+  // Validated as one batch, so each model's prices are compared across all stores
+  const validated = validateSearchResults(
+    results.map(({ result, report }) => ({ searchTerm: report.searchTerm, products: result.products }))
+  );
+  const searches = results.map(({ report }, index) => ({
+    ...report,
+    rejectedCount: validated[index]?.rejected.length ?? 0,
+  }));
+  recordRun(Date.now() - startedAt, getRunStatus(searches));
+
+  const products = validated.flatMap(({ accepted }) => accepted);
+  const rejected = validated.flatMap(({ rejected }) => rejected);
+  if (rejected.length > 0) {
+    console.log(`🚫 Rejected ${rejected.length} listings that failed validation`);
   }
 
+  const pageCount = results.reduce((sum, { result }) => sum + result.pages, 0);
+
   const uniqueProducts = products.filter(
     (product, index, self) =>
       index ===
@@ -259,6 +705,9 @@ const scrapeAllStores = async (
   return {
     products: uniqueProducts,
     errors,
+    pageCount,
+    searches,
+    rejected,
   };
 };
 
@@ -270,7 +719,11 @@ export {
   extractProductPrice,
   extractProductUrl,
   extractSingleProduct,
+  extractProductsWithSelectors,
+  extractStructuredProducts,
   extractProducts,
+  buildSearchUrl,
+  getNextPageUrl,
   scrapeStoreWithBrowser,
   scrapeStoreWithFetch,
   scrapeStore,
@@ -1,6 +1,45 @@
 import express, { Application } from 'express';
-import { main } from './index.js';
-import { getProductStats, getLatestProducts, getProductsByCategory } from './database.js';
+import {
+  getProductStats,
+  getLatestProducts,
+  getProductsByCategory,
+  getPriceHistory,
+  getLatestOffers,
+  getWatches,
+  getWatch,
+  createWatch,
+  saveWatch,
+  deleteWatch,
+  getSchedules,
+  saveSchedules,
+  getStores,
+  getStore,
+  getStoreIdByName,
+  createStore,
+  saveStore,
+  deleteStore,
+  getSearchTerms,
+  getSearchTerm,
+  createSearchTerm,
+  saveSearchTerm,
+  deleteSearchTerm,
+  getRunReports,
+  getRunReport,
+  getRunInsights,
+  getRejectedListings
+} from './database.js';
+import { parseWatchInput } from './watchlist.js';
+import { parseSearchTermInput, parseStoreInput } from './targets.js';
+import { compareModel, isAvailable } from './comparison.js';
+import { CATEGORIES, isCategory } from './config/categories.js';
+import { enqueueRun, getJob, parseRunOptions } from './jobs.js';
+import { startScheduler, stopScheduler, refreshSchedules, parseScheduleInput } from './scheduler.js';
+import { closeBrowserPool } from './browser.js';
+import { getMetrics, METRICS_CONTENT_TYPE } from './metrics.js';
+import { getStoreHealth } from './health.js';
+import { getLLMUsage } from './agents/llm-usage.js';
+import { isRejectionReason, REJECTION_REASONS } from './validation.js';
+import { EXPORT_FORMATS, getExportFilename, parseExportQuery, writeExport } from './export.js';
 
 const app: Application = express();
 const PORT = process.env.PORT || 3000;
@@ -9,8 +48,43 @@ const PORT = process.env.PORT || 3000;
 app.use(express.json());
 
 // Health check endpoint
+// Stays 200 while the API itself works; broken store scrapers only turn the status to degraded
 app.get('/health', (req, res) => {
-  res.json({ status: 'ok', timestamp: new Date().toISOString() });
+  try {
+    const stores = getStoreHealth();
+    const broken = stores.filter((store) => store.status === 'broken').map((store) => store.store);
+    const degraded = stores.filter((store) => store.status === 'degraded').map((store) => store.store);
+
+    res.json({
+      status: broken.length > 0 || degraded.length > 0 ? 'degraded' : 'ok',
+      stores: { broken, degraded },
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    res.status(500).json({
+      status: 'error',
+      error: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+app.get('/health/stores', (req, res) => {
+  try {
+    const stores = getStoreHealth();
+    res.json({
+      success: true,
+      data: stores,
+      count: stores.length,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
 });
 
 // For simplicity, I keep this route here - will move it to a separate service later
@@ -35,7 +109,8 @@ app.get('/stats', (req, res) => {
 app.get('/products', (req, res) => {
   try {
     const limit = parseInt(req.query.limit as string) || 50;
-    const products = getLatestProducts(limit);
+    const excludeOutOfStock = req.query.inStock === 'true';
+    const products = getLatestProducts(limit, excludeOutOfStock);
     res.json({
       success: true,
       data: products,
@@ -54,18 +129,19 @@ app.get('/products', (req, res) => {
 // For simplicity, I keep this route here - will move it to a separate service later
 app.get('/products/:category', (req, res) => {
   try {
-    const category = req.params.category as 'GPU' | 'CPU';
+    const category = req.params.category.toUpperCase();
     const limit = parseInt(req.query.limit as string) || 50;
     
-    if (!['GPU', 'CPU'].includes(category)) {
+    if (!isCategory(category)) {
       return res.status(400).json({
         success: false,
-        error: 'Invalid category. Must be GPU or CPU',
+        error: `Invalid category. Must be one of ${CATEGORIES.map(c => c.id).join(', ')}`,
         timestamp: new Date().toISOString()
       });
     }
     
-    const products = getProductsByCategory(category, limit);
+    const excludeOutOfStock = req.query.inStock === 'true';
+    const products = getProductsByCategory(category, limit, excludeOutOfStock);
     return res.json({
       success: true,
       data: products,
@@ -82,51 +158,796 @@ app.get('/products/:category', (req, res) => {
   }
 });
 
-// Main scraping endpoint
-app.post('/run', async (req, res) => {
-  const startTime = Date.now();
-  const requestId = Math.random().toString(36).substring(7);
-  
-  console.log(`[${requestId}] 🚀 Starting scraping job...`);
-  console.log(`[${requestId}] 📊 Request body:`, req.body);
-  
+// For simplicity, I keep this route here - will move it to a separate service later
+app.get('/products/:id/history', (req, res) => {
   try {
-    // Run the main scraping function
-    await main();
-    
-    const duration = Date.now() - startTime;
-    console.log(`[${requestId}] ✅ Scraping completed successfully in ${duration}ms`);
-    
+    const itemId = parseInt(req.params.id);
+
+    if (Number.isNaN(itemId)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid product id',
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const history = getPriceHistory(itemId);
+    return res.json({
+      success: true,
+      data: history,
+      count: history.length,
+      itemId,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+// For simplicity, I keep this route here - will move it to a separate service later
+app.get('/compare', (req, res) => {
+  try {
+    const model = typeof req.query.model === 'string' ? req.query.model.trim() : '';
+
+    if (!model) {
+      return res.status(400).json({
+        success: false,
+        error: 'Missing model query parameter',
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const offers = req.query.inStock === 'true'
+      ? getLatestOffers().filter(isAvailable)
+      : getLatestOffers();
+    const comparison = compareModel(model, offers);
+    return res.json({
+      success: true,
+      data: comparison,
+      count: comparison.offers.length,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+// For simplicity, I keep the watchlist routes here - will move them to a separate service later
+app.get('/watches', (req, res) => {
+  try {
+    const watches = getWatches();
     res.json({
       success: true,
-      requestId,
-      duration: `${duration}ms`,
-      timestamp: new Date().toISOString(),
-      message: 'Scraping completed successfully'
+      data: watches,
+      count: watches.length,
+      timestamp: new Date().toISOString()
     });
-    
   } catch (error) {
-    const duration = Date.now() - startTime;
-    console.error(`[${requestId}] ❌ Scraping failed after ${duration}ms:`, error);
-    
     res.status(500).json({
       success: false,
-      requestId,
-      duration: `${duration}ms`,
-      timestamp: new Date().toISOString(),
       error: error instanceof Error ? error.message : 'Unknown error',
-      message: 'Scraping failed'
+      timestamp: new Date().toISOString()
     });
   }
 });
 
-// Start the server
-app.listen(PORT, () => {
-  console.log(`🌐 Server running on port ${PORT}`);
-  console.log(`📡 Health check: http://localhost:${PORT}/health`);
-  console.log(`📊 Stats: http://localhost:${PORT}/stats`);
-  console.log(`📦 Products: http://localhost:${PORT}/products`);
-  console.log(`🔧 Scraping endpoint: POST http://localhost:${PORT}/run`);
+app.get('/watches/:id', (req, res) => {
+  try {
+    const watch = getWatch(parseInt(req.params.id));
+
+    if (!watch) {
+      return res.status(404).json({
+        success: false,
+        error: 'Watch not found',
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: watch,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+app.post('/watches', (req, res) => {
+  try {
+    const input = parseWatchInput(req.body);
+
+    if (typeof input === 'string') {
+      return res.status(400).json({
+        success: false,
+        error: input,
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    return res.status(201).json({
+      success: true,
+      data: createWatch(input),
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+app.put('/watches/:id', (req, res) => {
+  try {
+    const input = parseWatchInput(req.body);
+
+    if (typeof input === 'string') {
+      return res.status(400).json({
+        success: false,
+        error: input,
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const watch = saveWatch(parseInt(req.params.id), input);
+
+    if (!watch) {
+      return res.status(404).json({
+        success: false,
+        error: 'Watch not found',
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: watch,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+app.delete('/watches/:id', (req, res) => {
+  try {
+    if (!deleteWatch(parseInt(req.params.id))) {
+      return res.status(404).json({
+        success: false,
+        error: 'Watch not found',
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    return res.json({
+      success: true,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+// Stores and search terms are read at the start of every run, so changes apply to the next one
+app.get('/stores', (req, res) => {
+  try {
+    const stores = getStores();
+    res.json({
+      success: true,
+      data: stores,
+      count: stores.length,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+app.get('/stores/:id', (req, res) => {
+  try {
+    const record = getStore(parseInt(req.params.id));
+
+    if (!record) {
+      return res.status(404).json({
+        success: false,
+        error: 'Store not found',
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: record,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+app.post('/stores', (req, res) => {
+  try {
+    const input = parseStoreInput(req.body);
+
+    if (typeof input === 'string') {
+      return res.status(400).json({
+        success: false,
+        error: input,
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    if (getStores().some((existing) => existing.name.toLowerCase() === input.name.toLowerCase())) {
+      return res.status(409).json({
+        success: false,
+        error: `Store "${input.name}" already exists`,
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    return res.status(201).json({
+      success: true,
+      data: createStore(input),
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
 });
 
+app.patch('/stores/:id', (req, res) => {
+  try {
+    const id = parseInt(req.params.id);
+    const current = getStore(id);
+
+    if (!current) {
+      return res.status(404).json({
+        success: false,
+        error: 'Store not found',
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const input = parseStoreInput(req.body, current);
+
+    if (typeof input === 'string') {
+      return res.status(400).json({
+        success: false,
+        error: input,
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    // Unlike POST, a rename cannot take over the row of a store that only has history
+    const existingId = getStoreIdByName(input.name);
+    if (existingId !== undefined && existingId !== id) {
+      return res.status(409).json({
+        success: false,
+        error: `Store "${input.name}" already exists`,
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: saveStore(id, input),
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+app.delete('/stores/:id', (req, res) => {
+  try {
+    if (!deleteStore(parseInt(req.params.id))) {
+      return res.status(404).json({
+        success: false,
+        error: 'Store not found',
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    return res.json({
+      success: true,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+app.get('/search-terms', (req, res) => {
+  try {
+    const searchTerms = getSearchTerms();
+    res.json({
+      success: true,
+      data: searchTerms,
+      count: searchTerms.length,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+app.get('/search-terms/:id', (req, res) => {
+  try {
+    const record = getSearchTerm(parseInt(req.params.id));
+
+    if (!record) {
+      return res.status(404).json({
+        success: false,
+        error: 'Search term not found',
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: record,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+app.post('/search-terms', (req, res) => {
+  try {
+    const input = parseSearchTermInput(req.body);
+
+    if (typeof input === 'string') {
+      return res.status(400).json({
+        success: false,
+        error: input,
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    if (getSearchTerms().some((existing) => existing.term.toLowerCase() === input.term.toLowerCase())) {
+      return res.status(409).json({
+        success: false,
+        error: `Search term "${input.term}" already exists`,
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    return res.status(201).json({
+      success: true,
+      data: createSearchTerm(input),
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+app.patch('/search-terms/:id', (req, res) => {
+  try {
+    const id = parseInt(req.params.id);
+    const current = getSearchTerm(id);
+
+    if (!current) {
+      return res.status(404).json({
+        success: false,
+        error: 'Search term not found',
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const input = parseSearchTermInput(req.body, current);
+
+    if (typeof input === 'string') {
+      return res.status(400).json({
+        success: false,
+        error: input,
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    if (getSearchTerms().some((existing) => existing.id !== id && existing.term.toLowerCase() === input.term.toLowerCase())) {
+      return res.status(409).json({
+        success: false,
+        error: `Search term "${input.term}" already exists`,
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: saveSearchTerm(id, input),
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+app.delete('/search-terms/:id', (req, res) => {
+  try {
+    if (!deleteSearchTerm(parseInt(req.params.id))) {
+      return res.status(404).json({
+        success: false,
+        error: 'Search term not found',
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    return res.json({
+      success: true,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+// Prometheus scrape target
+app.get('/metrics', async (req, res) => {
+  try {
+    res.set('Content-Type', METRICS_CONTENT_TYPE);
+    res.send(await getMetrics());
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+// LLM calls, tokens and estimated cost per day and per agent method, e.g. /ai/usage?days=7
+app.get('/ai/usage', async (req, res) => {
+  try {
+    const days = parseInt(req.query.days as string) || 30;
+    const usage = await getLLMUsage(days);
+
+    res.json({
+      success: true,
+      data: usage,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+// Streams price history rows, e.g. /export?format=csv&category=GPU&store=Coolblue&from=2025-07-01&to=2025-07-31
+app.get('/export', async (req, res) => {
+  const query = parseExportQuery(req.query);
+
+  if (typeof query === 'string') {
+    return res.status(400).json({
+      success: false,
+      error: query,
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  try {
+    res.setHeader('Content-Type', EXPORT_FORMATS[query.format].contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${getExportFilename(query.format)}"`);
+
+    await writeExport(query.format, query.filters, res);
+    return res.end();
+  } catch (error) {
+    console.error('❌ Export failed:', error);
+
+    // Once rows have been streamed the status can no longer change, so the download is cut off instead
+    if (res.headersSent) {
+      return res.destroy(error instanceof Error ? error : undefined);
+    }
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+// Main scraping endpoint - enqueues a job and returns immediately
+app.post('/run', (req, res) => {
+  const options = parseRunOptions(req.body);
+
+  if (typeof options === 'string') {
+    return res.status(400).json({
+      success: false,
+      error: options,
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  const job = enqueueRun(options);
+
+  if (!job) {
+    return res.status(429).json({
+      success: false,
+      error: 'Too many scraping jobs queued, try again later',
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  console.log(`[${job.id}] 📊 Queued scraping job:`, options);
+
+  return res.status(202).json({
+    success: true,
+    jobId: job.id,
+    state: job.state,
+    statusUrl: `/runs/${job.id}`,
+    timestamp: new Date().toISOString()
+  });
+});
+
+app.get('/runs', (req, res) => {
+  try {
+    const limit = parseInt(req.query.limit as string) || 20;
+    const reports = getRunReports(limit);
+
+    res.json({
+      success: true,
+      data: reports,
+      count: reports.length,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+// Audit trail of listings that validation kept out of the item table
+app.get('/rejections', (req, res) => {
+  try {
+    const { store, reason } = req.query;
+    const limit = parseInt(req.query.limit as string) || 100;
+    const runId = req.query.runId !== undefined ? parseInt(req.query.runId as string) : undefined;
+
+    if (runId !== undefined && Number.isNaN(runId)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid run id',
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    if (reason !== undefined && !isRejectionReason(reason)) {
+      return res.status(400).json({
+        success: false,
+        error: `Invalid reason. Must be one of ${REJECTION_REASONS.join(', ')}`,
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const listings = getRejectedListings({
+      ...(runId !== undefined ? { runId } : {}),
+      ...(typeof store === 'string' && store ? { store } : {}),
+      ...(reason !== undefined ? { reason } : {})
+    }, limit);
+
+    return res.json({
+      success: true,
+      data: listings,
+      count: listings.length,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+// Accepts a persisted run id or the job id returned by POST /run. Jobs only live in memory,
+// so a job is null after a restart and its report is null until its scrape has finished
+app.get('/runs/:id', (req, res) => {
+  try {
+    const { id } = req.params;
+    const report = getRunReport(/^\d+$/.test(id) ? parseInt(id) : id) ?? null;
+    const job = getJob(report?.jobId ?? id) ?? null;
+
+    if (!job && !report) {
+      return res.status(404).json({
+        success: false,
+        error: 'Run not found',
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: { job, report },
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+app.get('/runs/:id/insights', (req, res) => {
+  try {
+    const { id } = req.params;
+    const report = getRunReport(/^\d+$/.test(id) ? parseInt(id) : id);
+    const insights = report ? getRunInsights(report.id) : undefined;
+
+    if (!insights) {
+      return res.status(404).json({
+        success: false,
+        error: report ? 'No insights for this run' : 'Run not found',
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: insights,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+// For simplicity, I keep the schedule routes here - will move them to a separate service later
+// Read-only: next runs are planned by PUT /schedule and the scheduler tick
+app.get('/schedule', (req, res) => {
+  try {
+    const schedules = getSchedules();
+    res.json({
+      success: true,
+      data: schedules,
+      count: schedules.length,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+app.put('/schedule', (req, res) => {
+  try {
+    const input = parseScheduleInput(req.body);
+
+    if (typeof input === 'string') {
+      return res.status(400).json({
+        success: false,
+        error: input,
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    saveSchedules(input);
+    const schedules = refreshSchedules();
+    return res.json({
+      success: true,
+      data: schedules,
+      count: schedules.length,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+// Start the server
+app.listen(PORT, () => {
+  console.log(`🌐 Server running on port ${PORT}`);
+  console.log(`📡 Health check: http://localhost:${PORT}/health`);
+  console.log(`🩺 Store health: http://localhost:${PORT}/health/stores`);
+  console.log(`📊 Stats: http://localhost:${PORT}/stats`);
+  console.log(`📦 Products: http://localhost:${PORT}/products`);
+  console.log(`⚖️  Compare: http://localhost:${PORT}/compare?model=...`);
+  console.log(`🔔 Watches: http://localhost:${PORT}/watches`);
+  console.log(`🏪 Stores: http://localhost:${PORT}/stores`);
+  console.log(`🔎 Search terms: http://localhost:${PORT}/search-terms`);
+  console.log(`📈 Metrics: http://localhost:${PORT}/metrics`);
+  console.log(`🤖 AI usage: http://localhost:${PORT}/ai/usage`);
+  console.log(`📤 Export: http://localhost:${PORT}/export?format=csv|ndjson|xlsx`);
+  console.log(`🔧 Scraping endpoint: POST http://localhost:${PORT}/run`);
+  console.log(`📋 Run reports: http://localhost:${PORT}/runs`);
+  console.log(`⏳ Run status: http://localhost:${PORT}/runs/:id`);
+  console.log(`💡 Run insights: http://localhost:${PORT}/runs/:id/insights`);
+  console.log(`🚫 Rejected listings: http://localhost:${PORT}/rejections`);
+  console.log(`⏰ Schedule: http://localhost:${PORT}/schedule`);
+
+  startScheduler();
+});
+
+const shutdown = async (signal: string): Promise<void> => {
+  console.log(`🛑 Received ${signal}, shutting down...`);
+  stopScheduler();
+  await closeBrowserPool();
+  process.exit(0);
+};
+
+process.once('SIGINT', () => void shutdown('SIGINT'));
+process.once('SIGTERM', () => void shutdown('SIGTERM'));
+
 export default app; 
\ No newline at end of file
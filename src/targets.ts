@@ -0,0 +1,103 @@
+import { ADAPTERS } from './config/adapters.js';
+import { CATEGORIES, isCategory } from './config/categories.js';
+import { resolveStore, Store } from './config/stores.js';
+import { getSearchTerms, getStores } from './database.js';
+import { SearchTermInput, StoreInput } from './types.js';
+
+const MAX_REQUESTS_PER_MINUTE = 120;
+const MAX_CONCURRENCY = 4;
+
+// Read on every run, so stores and terms changed through the API apply without a restart
+const getActiveStores = (storeNames?: readonly string[]): readonly Store[] =>
+  getStores()
+    .filter((store) => store.enabled)
+    .filter((store) => !storeNames || storeNames.some((name) => name.toLowerCase() === store.name.toLowerCase()))
+    .map(resolveStore)
+    .filter((store): store is Store => store !== null);
+
+const getActiveSearchTerms = (): readonly string[] =>
+  getSearchTerms()
+    .filter((searchTerm) => searchTerm.enabled)
+    .map((searchTerm) => searchTerm.term);
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === "string" && value.trim().length > 0;
+
+const isHttpUrl = (value: string): boolean => {
+  try {
+    return ["http:", "https:"].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+};
+
+// PATCH bodies are merged onto the current store before validation
+const parseStoreInput = (body: any, current?: StoreInput): StoreInput | string => {
+  const input = {
+    ...current,
+    ...body,
+    rateLimit: { ...current?.rateLimit, ...body?.rateLimit },
+  };
+
+  if (!isNonEmptyString(input.name)) {
+    return "name is required";
+  }
+  if (!isNonEmptyString(input.baseUrl) || !isHttpUrl(input.baseUrl)) {
+    return "baseUrl must be an http(s) URL";
+  }
+  if (!isNonEmptyString(input.searchPath) || !input.searchPath.startsWith("/")) {
+    return "searchPath must start with /";
+  }
+  if (!isNonEmptyString(input.searchParam)) {
+    return "searchParam is required";
+  }
+  if (input.requiresBrowser !== undefined && typeof input.requiresBrowser !== "boolean") {
+    return "requiresBrowser must be a boolean";
+  }
+  if (!isNonEmptyString(input.adapter) || !ADAPTERS[input.adapter]) {
+    return `Invalid adapter. Must be one of ${Object.keys(ADAPTERS).join(", ")}`;
+  }
+
+  const { requestsPerMinute = 20, concurrency = 1 } = input.rateLimit;
+  if (typeof requestsPerMinute !== "number" || requestsPerMinute <= 0 || requestsPerMinute > MAX_REQUESTS_PER_MINUTE) {
+    return `rateLimit.requestsPerMinute must be between 0 and ${MAX_REQUESTS_PER_MINUTE}`;
+  }
+  if (!Number.isInteger(concurrency) || concurrency < 1 || concurrency > MAX_CONCURRENCY) {
+    return `rateLimit.concurrency must be an integer between 1 and ${MAX_CONCURRENCY}`;
+  }
+
+  return {
+    name: input.name.trim(),
+    baseUrl: input.baseUrl.trim().replace(/\/+$/, ""),
+    searchPath: input.searchPath.trim(),
+    searchParam: input.searchParam.trim(),
+    requiresBrowser: input.requiresBrowser === true,
+    adapter: input.adapter,
+    rateLimit: { requestsPerMinute, concurrency },
+    enabled: input.enabled !== false,
+  };
+};
+
+const parseSearchTermInput = (body: any, current?: SearchTermInput): SearchTermInput | string => {
+  const input = { ...current, ...body };
+
+  if (!isNonEmptyString(input.term)) {
+    return "term is required";
+  }
+  if (input.category !== undefined && input.category !== null && !isCategory(input.category)) {
+    return `Invalid category. Must be one of ${CATEGORIES.map((category) => category.id).join(", ")}`;
+  }
+
+  return {
+    term: input.term.trim(),
+    category: input.category ?? null,
+    enabled: input.enabled !== false,
+  };
+};
+
+export {
+  getActiveStores,
+  getActiveSearchTerms,
+  parseStoreInput,
+  parseSearchTermInput
+};
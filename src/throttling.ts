@@ -0,0 +1,167 @@
+import { ErrorType, RateLimit } from './types.js';
+
+const MAX_RETRIES = parseInt(process.env.SCRAPE_MAX_RETRIES ?? "") || 3;
+const BASE_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 60000;
+
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+    readonly retryAfterMs: number | null = null
+  ) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+interface HostLimiter {
+  readonly run: <T>(task: () => Promise<T>) => Promise<T>;
+  readonly waitForTurn: () => Promise<void>;
+  readonly getRateLimit: () => RateLimit;
+  // Applies to queued tasks too, so a limit changed mid-run takes effect right away
+  readonly setRateLimit: (rateLimit: RateLimit) => void;
+}
+
+const limiters = new Map<string, HostLimiter>();
+
+const sleep = (ms: number): Promise<void> =>
+  new Promise((resolve) => setTimeout(resolve, ms));
+
+// Accepts both forms allowed by the spec: delta seconds ("120") and an HTTP date
+const parseRetryAfter = (value: string | null | undefined, now: number = Date.now()): number | null => {
+  if (!value) return null;
+
+  if (/^\d+$/.test(value.trim())) {
+    return parseInt(value, 10) * 1000;
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+};
+
+const isTimeoutError = (error: unknown): boolean =>
+  error instanceof Error && (error.name === "TimeoutError" || error.name === "AbortError");
+
+// Coarse buckets for metrics and run reports
+const classifyError = (error: unknown): ErrorType => {
+  if (error instanceof HttpError) {
+    return error.status === 429 ? "rate_limited" : error.status >= 500 ? "server_error" : "client_error";
+  }
+  if (isTimeoutError(error)) {
+    return "timeout";
+  }
+  return error instanceof Error && /ECONN|ENOTFOUND|EAI_AGAIN|net::ERR_|socket hang up/i.test(error.message)
+    ? "network"
+    : "other";
+};
+
+const isRetryable = (error: unknown): boolean =>
+  error instanceof HttpError
+    ? error.status === 429 || error.status >= 500
+    : isTimeoutError(error);
+
+// Full jitter keeps parallel workers that failed together from retrying in lockstep
+const getRetryDelay = (attempt: number, error: unknown): number => {
+  const backoff = Math.random() * Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** attempt);
+  const retryAfter = error instanceof HttpError ? error.retryAfterMs : null;
+
+  return retryAfter === null ? backoff : Math.min(MAX_RETRY_DELAY_MS, Math.max(retryAfter, backoff));
+};
+
+const withRetry = async <T>(label: string, task: () => Promise<T>, retries: number = MAX_RETRIES): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await task();
+    } catch (error) {
+      if (attempt >= retries || !isRetryable(error)) {
+        throw error;
+      }
+
+      const retryDelay = Math.round(getRetryDelay(attempt, error));
+      console.warn(`🔁 ${label} failed (${error instanceof Error ? error.message : error}), retry ${attempt + 1}/${retries} in ${retryDelay}ms`);
+      await sleep(retryDelay);
+    }
+  }
+};
+
+// Limits how many tasks run against a host at once and spaces out its requests
+const createHostLimiter = (initialRateLimit: RateLimit): HostLimiter => {
+  const waiting: (() => void)[] = [];
+  let rateLimit = initialRateLimit;
+  let active = 0;
+  let nextRequestAt = 0;
+
+  const acquire = async (): Promise<void> => {
+    if (active < rateLimit.concurrency) {
+      active++;
+      return;
+    }
+    // The releasing task hands its slot over directly, so active stays the same
+    await new Promise<void>((resolve) => waiting.push(resolve));
+  };
+
+  // After a lowered concurrency, slots are given back until active fits the new limit
+  const release = (): void => {
+    const next = active <= rateLimit.concurrency ? waiting.shift() : undefined;
+    if (next) {
+      next();
+    } else {
+      active--;
+    }
+  };
+
+  return {
+    run: async (task) => {
+      await acquire();
+      try {
+        return await task();
+      } finally {
+        release();
+      }
+    },
+    waitForTurn: async () => {
+      const now = Date.now();
+      const turn = Math.max(now, nextRequestAt);
+      nextRequestAt = turn + 60000 / rateLimit.requestsPerMinute;
+      await sleep(turn - now);
+    },
+    getRateLimit: () => rateLimit,
+    setRateLimit: (next) => {
+      rateLimit = next;
+      while (active < rateLimit.concurrency && waiting.length > 0) {
+        active++;
+        waiting.shift()?.();
+      }
+    },
+  };
+};
+
+const isSameRateLimit = (a: RateLimit, b: RateLimit): boolean =>
+  a.requestsPerMinute === b.requestsPerMinute && a.concurrency === b.concurrency;
+
+const getHostLimiter = (url: string, rateLimit: RateLimit): HostLimiter => {
+  const host = new URL(url).host;
+  const existing = limiters.get(host);
+  if (existing) {
+    // Stores are re-read on every run, so a rate limit changed through the API arrives here
+    if (!isSameRateLimit(existing.getRateLimit(), rateLimit)) {
+      existing.setRateLimit(rateLimit);
+    }
+    return existing;
+  }
+
+  const limiter = createHostLimiter(rateLimit);
+  limiters.set(host, limiter);
+  return limiter;
+};
+
+export {
+  HttpError,
+  parseRetryAfter,
+  classifyError,
+  isRetryable,
+  withRetry,
+  createHostLimiter,
+  getHostLimiter
+};
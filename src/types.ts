@@ -1,20 +1,433 @@
+export type Category = "GPU" | "CPU" | "RAM" | "MOTHERBOARD" | "SSD" | "PSU";
+
+export type Availability = "in_stock" | "backorder" | "out_of_stock" | "unknown";
+
 export interface Item {
   readonly name: string;
   readonly price: number;
   readonly url: string;
   readonly store: string;
-  readonly category: "GPU" | "CPU";
+  readonly category: Category;
+  // Identifiers from schema.org structured data, when the shop publishes them
+  readonly gtin?: string;
+  readonly sku?: string;
+  readonly availability?: Availability;
+  readonly deliveryEstimate?: string;
+  readonly seller?: string;
+  // True when a third party sells the listing through the shop's marketplace
+  readonly isMarketplace?: boolean;
+}
+
+// An item read back from the database
+export interface StoredItem extends Item {
+  readonly id: number;
+}
+
+export interface PricePoint {
+  readonly scrapeId: number;
+  readonly timestamp: string;
+  readonly price: number;
+  readonly url: string;
+}
+
+// One price_history row with its item, store and scrape time, as exported
+export interface PriceRecord {
+  readonly id: number;
+  readonly scrapeId: number;
+  readonly timestamp: string;
+  readonly store: string;
+  readonly category: Category;
+  readonly name: string;
+  readonly price: number;
+  readonly availability: Availability;
+  readonly deliveryEstimate: string | null;
+  readonly seller: string | null;
+  readonly isMarketplace: boolean | null;
+  readonly url: string;
+}
+
+export type ExportFormat = "csv" | "ndjson" | "xlsx";
+
+export interface ExportFilters {
+  readonly category?: Category;
+  readonly store?: string;
+  // ISO timestamps; from is inclusive, to is exclusive
+  readonly from?: string;
+  readonly to?: string;
+}
+
+export interface CanonicalModel {
+  readonly key: string;
+  readonly category: Item["category"];
+  readonly chipset: string;
+  readonly brand: string;
+  readonly variant: string | null;
+  readonly memoryGb: number | null;
+}
+
+export interface Offer extends Item {
+  readonly itemId: number;
+  readonly previousPrice: number | null;
+}
+
+export interface ModelComparison<T extends Item = Item> {
+  readonly model: string;
+  readonly offers: readonly T[];
+  readonly cheapestPerStore: readonly T[];
+  readonly cheapest: T | null;
+  // Difference between the cheapest offers of the most and least expensive store
+  readonly spread: number | null;
+  readonly spreadPercent: number | null;
+}
+
+export interface Watch {
+  readonly id: number;
+  readonly query: string;
+  readonly store: string | null;
+  readonly category: Item["category"] | null;
+  readonly maxPrice: number | null;
+  readonly dropPercent: number | null;
+  readonly enabled: boolean;
+  readonly createdAt: string;
+}
+
+export type WatchInput = Omit<Watch, "id" | "createdAt">;
+
+export interface WatchAlert {
+  readonly watch: Watch;
+  readonly offer: Offer;
+  readonly reason: string;
+}
+
+export interface ProductStats {
+  readonly total: number;
+  readonly categories: Readonly<Record<Category, number>>;
+  readonly stores: readonly string[];
+}
+
+export interface StoreScrapeResult {
+  readonly products: readonly Item[];
+  readonly pages: number;
+  // Status of the last page response; null when replaying fixtures or when the browser got no response
+  readonly httpStatus: number | null;
+  // Set when a later page failed; the products are those of the pages before it
+  readonly error?: Error;
+}
+
+export type SearchStatus = "ok" | "empty" | "failed";
+
+// Outcome of one store/search term pair within a run
+export interface SearchReport {
+  readonly store: string;
+  readonly searchTerm: string;
+  readonly status: SearchStatus;
+  readonly httpStatus: number | null;
+  readonly productCount: number;
+  // Listings without a usable price (missing, zero or the -1 placeholder) are left out of the median
+  readonly medianPrice: number | null;
+  readonly invalidPrices: number;
+  // Extracted listings that failed validation; they are part of productCount but never saved
+  readonly rejectedCount: number;
+  readonly pages: number;
+  readonly durationMs: number;
+  readonly errorType: ErrorType | null;
+  readonly error: string | null;
+}
+
+export interface SearchHistoryEntry extends SearchReport {
+  readonly runId: number;
+  readonly finishedAt: string;
+}
+
+export type AnomalyType = "failed" | "zero_results" | "count_drop" | "invalid_prices" | "price_shift";
+
+export interface Anomaly {
+  readonly type: AnomalyType;
+  readonly message: string;
+}
+
+export type HealthStatus = "healthy" | "degraded" | "broken" | "unknown";
+
+export interface SearchHealth {
+  readonly store: string;
+  readonly searchTerm: string;
+  readonly status: HealthStatus;
+  readonly productCount: number;
+  readonly medianPrice: number | null;
+  // Medians over recent runs; null when there is no history to compare with
+  readonly baselineProductCount: number | null;
+  readonly baselineMedianPrice: number | null;
+  readonly anomalies: readonly Anomaly[];
+}
+
+export interface StoreHealth {
+  readonly store: string;
+  readonly status: HealthStatus;
+  // When the latest of its searches finished; null if the store was never scraped
+  readonly checkedAt: string | null;
+  readonly searches: readonly SearchHealth[];
+}
+
+export type RejectionReason =
+  | "invalid_price"
+  | "low_confidence"
+  | "accessory"
+  | "bundle"
+  | "refurbished"
+  | "system"
+  | "price_outlier";
+
+export interface RejectedListing {
+  readonly id: number;
+  readonly runId: number;
+  readonly rejectedAt: string;
+  readonly store: string;
+  readonly searchTerm: string;
+  readonly name: string;
+  readonly price: number;
+  readonly url: string;
+  readonly category: Category | null;
+  // Category confidence between 0 and 1
+  readonly confidence: number;
+  readonly reason: RejectionReason;
+  readonly detail: string;
+}
+
+export type RejectedListingInput = Omit<RejectedListing, "id" | "runId" | "rejectedAt">;
+
+export interface RejectionFilters {
+  readonly runId?: number;
+  readonly store?: string;
+  readonly reason?: RejectionReason;
 }
 
 export interface ScrapingResult {
   readonly products: readonly Item[];
   readonly errors: readonly string[];
+  readonly pageCount?: number;
+  readonly searches?: readonly SearchReport[];
+  readonly rejected?: readonly RejectedListingInput[];
+}
+
+export type RunStatus = "success" | "partial" | "failed";
+
+export interface RunReport {
+  readonly id: number;
+  // Set when the run was started through POST /run
+  readonly jobId: string | null;
+  // null until the products are saved, and for runs that failed before that
+  readonly scrapeId: number | null;
+  readonly status: RunStatus;
+  readonly startedAt: string;
+  readonly finishedAt: string;
+  readonly durationMs: number;
+  readonly productCount: number;
+  readonly pageCount: number;
+  readonly searches: readonly SearchReport[];
+}
+
+export type RunReportInput = Omit<RunReport, "id" | "scrapeId">;
+
+export interface RunOptions {
+  readonly stores?: readonly string[];
+  readonly searchTerms?: readonly string[];
+  readonly maxPages?: number;
+  // CLI only: scrape and report without saving anything or alerting watches
+  readonly dryRun?: boolean;
+  readonly skipAI?: boolean;
+}
+
+export interface RunSummary {
+  // Both null for dry runs
+  readonly runId: number | null;
+  readonly scrapeId: number | null;
+  readonly status: RunStatus;
+  readonly productCount: number;
+  readonly pageCount: number;
+  readonly errors: readonly string[];
+}
+
+export interface RunProgress {
+  readonly completed: number;
+  readonly total: number;
+}
+
+export type JobState = "queued" | "running" | "succeeded" | "failed";
+
+export interface ScrapeJob {
+  readonly id: string;
+  readonly state: JobState;
+  readonly options: RunOptions;
+  readonly progress: RunProgress;
+  readonly createdAt: string;
+  readonly startedAt?: string;
+  readonly finishedAt?: string;
+  readonly result?: RunSummary;
+  readonly error?: string;
+}
+
+export interface Schedule {
+  readonly id: number;
+  readonly name: string;
+  readonly cron: string;
+  readonly stores: readonly string[] | null;
+  readonly searchTerms: readonly string[] | null;
+  readonly enabled: boolean;
+  // Run once on startup when the server was down at the scheduled time
+  readonly catchUp: boolean;
+  readonly lastRunAt: string | null;
+  readonly nextRunAt: string | null;
+  readonly lastJobId: string | null;
+}
+
+export type ScheduleInput = Pick<Schedule, "name" | "cron" | "stores" | "searchTerms" | "enabled" | "catchUp">;
+
+// Cheapest offer of a chipset on one day, across all stores
+export interface ChipsetPricePoint {
+  readonly category: Category;
+  readonly chipset: string;
+  readonly day: string;
+  readonly minPrice: number;
+  readonly offerCount: number;
+}
+
+export type RecommendationAction = "buy" | "wait";
+
+export interface PriceCitation {
+  readonly store: string;
+  readonly price: number;
+}
+
+export interface Recommendation {
+  readonly model: string;
+  readonly category: Category;
+  readonly action: RecommendationAction;
+  readonly reason: string;
+  // Offers from the current scrape the recommendation is based on
+  readonly citations: readonly PriceCitation[];
 }
 
+// "fallback" when no model was reachable or its answer was rejected
+export type InsightSource = "llm" | "fallback";
 
 export interface AIAnalysisResult {
   readonly products: readonly Item[];
   readonly errors: readonly string[];
   readonly insights?: string;
-  readonly recommendations?: string;
-} 
\ No newline at end of file
+  readonly recommendations?: readonly Recommendation[];
+  readonly source?: InsightSource;
+  // The LLM that wrote the insights; null for the fallback
+  readonly model?: string | null;
+}
+
+export interface RunInsights {
+  readonly runId: number;
+  readonly source: InsightSource;
+  readonly model: string | null;
+  readonly insights: string;
+  readonly recommendations: readonly Recommendation[];
+  readonly createdAt: string;
+}
+
+// "cached" calls were answered from the response cache without reaching the model
+export type LLMCallOutcome = "success" | "error" | "cached";
+
+export interface LLMCallRecord {
+  readonly timestamp: string;
+  readonly method: string;
+  readonly model: string;
+  // sha256 of the prompt, so calls can be matched without logging product data
+  readonly promptHash: string;
+  readonly promptTokens: number | null;
+  readonly completionTokens: number | null;
+  // null when the model has no known price
+  readonly costUsd: number | null;
+  readonly durationMs: number;
+  readonly outcome: LLMCallOutcome;
+  readonly error?: string;
+}
+
+export interface LLMUsageTotals {
+  readonly calls: number;
+  readonly cachedCalls: number;
+  readonly failedCalls: number;
+  readonly promptTokens: number;
+  readonly completionTokens: number;
+  readonly costUsd: number;
+  readonly durationMs: number;
+}
+
+export interface LLMUsageSummary {
+  readonly from: string;
+  readonly byDay: readonly (LLMUsageTotals & { readonly day: string })[];
+  readonly byMethod: readonly (LLMUsageTotals & { readonly method: string })[];
+  readonly total: LLMUsageTotals;
+}
+
+export type SearchStep =
+  | { readonly action: "waitForSelector"; readonly selector: string; readonly timeout?: number }
+  | { readonly action: "fill"; readonly selector: string; readonly value: string }
+  | { readonly action: "press"; readonly selector: string; readonly key: string }
+  | { readonly action: "click"; readonly selector: string }
+  | { readonly action: "waitForLoadState"; readonly state: "load" | "domcontentloaded" | "networkidle" };
+
+export interface StoreSelectors {
+  readonly product: readonly string[];
+  readonly name: readonly string[];
+  readonly price: readonly string[];
+  readonly url: readonly string[];
+  readonly availability?: readonly string[];
+  readonly delivery?: readonly string[];
+  readonly seller?: readonly string[];
+}
+
+export type ErrorType = "rate_limited" | "server_error" | "client_error" | "timeout" | "network" | "other";
+
+export interface RateLimit {
+  readonly requestsPerMinute: number;
+  readonly concurrency: number;
+}
+
+// The persisted form of a store; the adapter is referenced by its key in ADAPTERS
+export interface StoreConfig {
+  readonly name: string;
+  readonly baseUrl: string;
+  readonly searchPath: string;
+  readonly searchParam: string;
+  readonly requiresBrowser: boolean;
+  readonly adapter: string;
+  readonly rateLimit: RateLimit;
+}
+
+export interface StoreRecord extends StoreConfig {
+  readonly id: number;
+  readonly enabled: boolean;
+}
+
+export type StoreInput = Omit<StoreRecord, "id">;
+
+export interface SearchTerm {
+  readonly id: number;
+  readonly term: string;
+  readonly category: Category | null;
+  readonly enabled: boolean;
+  readonly createdAt: string;
+}
+
+export type SearchTermInput = Omit<SearchTerm, "id" | "createdAt">;
+
+export type Pagination =
+  | { readonly type: "nextLink"; readonly selector: string }
+  | { readonly type: "pageParam"; readonly param: string; readonly firstPage?: number }
+  // Browser only: keeps clicking the button and parses the grown result list once
+  | { readonly type: "loadMore"; readonly selector: string };
+
+export interface StoreAdapter {
+  readonly selectors: StoreSelectors;
+  readonly pagination?: Pagination;
+  readonly consentSelector?: string;
+  // Browser stores without steps are opened directly on their search URL
+  readonly searchSteps?: readonly SearchStep[];
+  readonly parsePrice: (text: string) => number;
+  readonly parseAvailability: (text: string) => Availability;
+}
@@ -0,0 +1,211 @@
+import { classifyProduct, getMatchingCategories } from './config/categories.js';
+import { findChipset, getTitle } from './matching.js';
+import { isValidPrice, median } from './pricing.js';
+import { Category, Item, RejectedListingInput, RejectionReason } from './types.js';
+
+interface ListingPattern {
+  readonly reason: RejectionReason;
+  readonly pattern: RegExp;
+  readonly detail: string;
+}
+
+interface Verdict {
+  readonly confidence: number;
+  readonly reason: RejectionReason;
+  readonly detail: string;
+}
+
+const REJECTION_REASONS: readonly RejectionReason[] = [
+  "invalid_price",
+  "low_confidence",
+  "accessory",
+  "bundle",
+  "refurbished",
+  "system",
+  "price_outlier",
+] as const;
+
+const MIN_CONFIDENCE = 0.5;
+
+// Cheapest plausible new price per category; anything below is a part, a typo or a placeholder
+const MIN_PRICES: Readonly<Record<Category, number>> = {
+  GPU: 150,
+  CPU: 50,
+  RAM: 20,
+  MOTHERBOARD: 50,
+  SSD: 20,
+  PSU: 30,
+};
+
+// A model needs this many offers in the run before its median is trusted
+const MIN_MODEL_OFFERS = 3;
+const OUTLIER_LOW_RATIO = 0.5;
+const OUTLIER_HIGH_RATIO = 2.5;
+
+// The categories normalizeProduct can map to a chipset
+const CHIPSET_CATEGORIES: readonly Category[] = ["GPU", "CPU"];
+
+const LISTING_PATTERNS: readonly ListingPattern[] = [
+  {
+    reason: "refurbished",
+    pattern: /\b(refurbished|refurb|renewed|gereviseerd|tweedehands|2e\s*hands|second[\s-]hand|used|gebruikt|b[\s-]grade|open\s*box|demo(model)?)\b/i,
+    detail: "Refurbished, used or open-box listing",
+  },
+  {
+    reason: "system",
+    pattern: /\b(laptop|notebook|gaming[\s-]?pc|game[\s-]?pc|mini[\s-]?pc|all[\s-]in[\s-]one|workstation)\b/i,
+    detail: "Complete system rather than a component",
+  },
+  {
+    reason: "bundle",
+    pattern: /\b(bundel|bundle|combo|combi\s*deal|upgrade\s*kit)\b/i,
+    detail: "Bundle of several products",
+  },
+  {
+    reason: "accessory",
+    pattern: /\b(bracket|anti[\s-]?sag|houder|steun|riser|backplate|water\s*block|waterblock|(verleng|sleeved\s*|extension\s*|adapter\s*)kabel|(sleeved|extension|adapter)\s*cable|thermal\s*(paste|pad)|koelpasta|geschikt\s*voor|compatible\s*with)\b/i,
+    detail: "Accessory for a component rather than the component itself",
+  },
+] as const;
+
+const isRejectionReason = (value: unknown): value is RejectionReason =>
+  REJECTION_REASONS.some((reason) => reason === value);
+
+// Listings of the same chipset are compared across stores, so one misparsed price stands out
+const getModelKey = (product: Item): string | null => {
+  const chipset = findChipset(getTitle(product.name), product.category);
+  return chipset ? `${product.category}|${chipset.chipset}` : null;
+};
+
+const getModelMedians = (products: readonly Item[]): ReadonlyMap<string, number> => {
+  const prices = new Map<string, number[]>();
+
+  products
+    .filter((product) => isValidPrice(product.price))
+    .filter((product) => !LISTING_PATTERNS.some(({ pattern }) => pattern.test(product.name)))
+    .forEach((product) => {
+      const key = getModelKey(product);
+      if (key) {
+        prices.set(key, [...(prices.get(key) ?? []), product.price]);
+      }
+    });
+
+  return new Map(
+    [...prices]
+      .filter(([, values]) => values.length >= MIN_MODEL_OFFERS)
+      .map(([key, values]) => [key, median(values) ?? 0])
+  );
+};
+
+// Starts at 1 and drops for each sign that the listing is something else than its category says
+const scoreCategory = (
+  product: Item,
+  searchCategory: Category | null
+): { readonly confidence: number; readonly concerns: readonly string[] } => {
+  const concerns: string[] = [];
+  let confidence = 1;
+
+  if (searchCategory && searchCategory !== product.category) {
+    confidence -= 0.5;
+    concerns.push(`found while searching for ${searchCategory}`);
+  }
+
+  const otherCategories = getMatchingCategories(product.name).filter((category) => category !== product.category);
+  if (otherCategories.length > 0) {
+    confidence -= 0.3;
+    concerns.push(`also matches ${otherCategories.join(", ")}`);
+  }
+
+  if (CHIPSET_CATEGORIES.includes(product.category) && !findChipset(getTitle(product.name), product.category)) {
+    confidence -= 0.3;
+    concerns.push("no known chipset in the name");
+  }
+
+  return { confidence: Math.max(0, Math.round(confidence * 100) / 100), concerns };
+};
+
+// Returns null for listings that pass
+const judgeListing = (
+  product: Item,
+  searchCategory: Category | null,
+  modelMedians: ReadonlyMap<string, number>
+): Verdict | null => {
+  const { confidence, concerns } = scoreCategory(product, searchCategory);
+
+  if (!isValidPrice(product.price)) {
+    return { confidence, reason: "invalid_price", detail: `Price could not be parsed (${product.price})` };
+  }
+
+  const match = LISTING_PATTERNS.find(({ pattern }) => pattern.test(product.name));
+  if (match) {
+    return { confidence, reason: match.reason, detail: match.detail };
+  }
+
+  // "+" between two products only counts as a bundle when both halves name a category
+  if (/\s\+\s/.test(product.name) && getMatchingCategories(product.name).length > 1) {
+    return { confidence, reason: "bundle", detail: "Bundle of several products" };
+  }
+
+  if (confidence < MIN_CONFIDENCE) {
+    return { confidence, reason: "low_confidence", detail: `Category ${product.category} is uncertain: ${concerns.join("; ")}` };
+  }
+
+  if (product.price < MIN_PRICES[product.category]) {
+    return {
+      confidence,
+      reason: "price_outlier",
+      detail: `€${product.price} is below the €${MIN_PRICES[product.category]} minimum for ${product.category}`,
+    };
+  }
+
+  const modelKey = getModelKey(product);
+  const modelMedian = modelKey ? modelMedians.get(modelKey) : undefined;
+  if (modelMedian && (product.price < modelMedian * OUTLIER_LOW_RATIO || product.price > modelMedian * OUTLIER_HIGH_RATIO)) {
+    return {
+      confidence,
+      reason: "price_outlier",
+      detail: `€${product.price} is far from the €${modelMedian.toFixed(2)} median of other offers for this model`,
+    };
+  }
+
+  return null;
+};
+
+// Splits the listings of every search into accepted products and rejections, keeping the input order
+const validateSearchResults = (
+  searches: readonly { readonly searchTerm: string; readonly products: readonly Item[] }[]
+): readonly { readonly accepted: readonly Item[]; readonly rejected: readonly RejectedListingInput[] }[] => {
+  const modelMedians = getModelMedians(searches.flatMap((search) => search.products));
+
+  return searches.map(({ searchTerm, products }) => {
+    const searchCategory = classifyProduct(searchTerm);
+    const accepted: Item[] = [];
+    const rejected: RejectedListingInput[] = [];
+
+    products.forEach((product) => {
+      const verdict = judgeListing(product, searchCategory, modelMedians);
+      if (!verdict) {
+        accepted.push(product);
+        return;
+      }
+
+      rejected.push({
+        store: product.store,
+        searchTerm,
+        name: product.name,
+        price: product.price,
+        url: product.url,
+        category: product.category,
+        ...verdict,
+      });
+    });
+
+    return { accepted, rejected };
+  });
+};
+
+export {
+  REJECTION_REASONS,
+  isRejectionReason,
+  validateSearchResults
+};
@@ -0,0 +1,139 @@
+import fetch from "node-fetch";
+import { Offer, Watch, WatchAlert, WatchInput } from './types.js';
+import { CATEGORIES, isCategory } from './config/categories.js';
+import { getScrapeOffers, getWatches, hasWatchAlert, recordWatchAlert } from './database.js';
+import { createModelMatcher } from './comparison.js';
+
+// A webhook that accepts the connection but never answers must not hold up the run
+const WEBHOOK_TIMEOUT_MS = parseInt(process.env.ALERT_WEBHOOK_TIMEOUT_MS ?? "") || 10000;
+
+const getWebhookUrl = (): string | undefined => process.env.ALERT_WEBHOOK_URL;
+
+// The query is matched like GET /compare, so "AMD Ryzen 7800X3D" matches
+// "AMD Ryzen 7 7800X3D Processor" and "7900 XT" never matches "RX 7900 XTX"
+const matchesWatch = (watch: Watch, offer: Offer, matchesModel: (offer: Offer) => boolean): boolean =>
+  watch.enabled &&
+  offer.price > 0 &&
+  (watch.store === null || watch.store.toLowerCase() === offer.store.toLowerCase()) &&
+  (watch.category === null || watch.category === offer.category) &&
+  matchesModel(offer);
+
+const getDropPercent = (offer: Offer): number =>
+  offer.previousPrice && offer.previousPrice > 0
+    ? ((offer.previousPrice - offer.price) / offer.previousPrice) * 100
+    : 0;
+
+const getAlertReason = (watch: Watch, offer: Offer): string | null => {
+  if (watch.maxPrice !== null && offer.price <= watch.maxPrice) {
+    return `Price €${offer.price} is at or below €${watch.maxPrice}`;
+  }
+
+  const dropPercent = getDropPercent(offer);
+  if (watch.dropPercent !== null && dropPercent >= watch.dropPercent) {
+    return `Price dropped ${dropPercent.toFixed(1)}% from €${offer.previousPrice} to €${offer.price}`;
+  }
+
+  return null;
+};
+
+const findAlerts = (watches: readonly Watch[], offers: readonly Offer[]): readonly WatchAlert[] =>
+  watches.flatMap((watch) => {
+    const matchesModel = createModelMatcher(watch.query);
+    return offers
+      .filter((offer) => matchesWatch(watch, offer, matchesModel))
+      .map((offer) => ({ watch, offer, reason: getAlertReason(watch, offer) }))
+      .filter((alert): alert is WatchAlert => alert.reason !== null);
+  });
+
+const createAlertPayload = (alert: WatchAlert, scrapeId: number) => ({
+  type: "price_alert",
+  scrapeId,
+  watch: alert.watch,
+  offer: alert.offer,
+  reason: alert.reason,
+  timestamp: new Date().toISOString(),
+});
+
+const deliverAlert = async (webhookUrl: string, alert: WatchAlert, scrapeId: number): Promise<void> => {
+  const response = await fetch(webhookUrl, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(createAlertPayload(alert, scrapeId)),
+    signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Webhook responded with HTTP ${response.status}`);
+  }
+};
+
+const evaluateWatches = async (scrapeId: number): Promise<readonly WatchAlert[]> => {
+  const alerts = findAlerts(getWatches(), getScrapeOffers(scrapeId)).filter(
+    (alert) => !hasWatchAlert(alert.watch.id, alert.offer.itemId, alert.offer.price)
+  );
+
+  if (alerts.length === 0) {
+    return alerts;
+  }
+
+  const webhookUrl = getWebhookUrl();
+  if (!webhookUrl) {
+    console.warn(`🔔 ${alerts.length} watch alert(s) triggered but ALERT_WEBHOOK_URL is not set`);
+    return [];
+  }
+
+  const delivered: WatchAlert[] = [];
+
+  // Alerts are only recorded once delivered, so a failed webhook call is retried on the next run
+  for (const alert of alerts) {
+    try {
+      await deliverAlert(webhookUrl, alert, scrapeId);
+      recordWatchAlert(alert.watch.id, alert.offer.itemId, scrapeId, alert.offer.price);
+      delivered.push(alert);
+    } catch (error) {
+      console.error(`❌ Failed to deliver alert for watch ${alert.watch.id}:`, error);
+    }
+  }
+
+  console.log(`🔔 Delivered ${delivered.length}/${alerts.length} watch alert(s)`);
+  return delivered;
+};
+
+const parseWatchInput = (body: any): WatchInput | string => {
+  const optionalNumber = (value: unknown): number | null | undefined =>
+    value === undefined || value === null ? null : typeof value === "number" && value > 0 ? value : undefined;
+
+  if (typeof body?.query !== "string" || !body.query.trim()) {
+    return "query is required";
+  }
+
+  const maxPrice = optionalNumber(body.maxPrice);
+  const dropPercent = optionalNumber(body.dropPercent);
+
+  if (maxPrice === undefined || dropPercent === undefined) {
+    return "maxPrice and dropPercent must be positive numbers";
+  }
+  if (maxPrice === null && dropPercent === null) {
+    return "Either maxPrice or dropPercent is required";
+  }
+  if (body.category !== undefined && body.category !== null && !isCategory(body.category)) {
+    return `Invalid category. Must be one of ${CATEGORIES.map((category) => category.id).join(", ")}`;
+  }
+
+  return {
+    query: body.query.trim(),
+    store: typeof body.store === "string" ? body.store : null,
+    category: body.category ?? null,
+    maxPrice,
+    dropPercent,
+    enabled: body.enabled !== false,
+  };
+};
+
+export {
+  matchesWatch,
+  getAlertReason,
+  findAlerts,
+  evaluateWatches,
+  parseWatchInput
+};